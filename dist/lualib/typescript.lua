@@ -0,0 +1,834 @@
+-- Ternary operator
+function TS_ITE(condition, v1f, v2f)
+    if condition then
+        return v1f()
+    else
+        return v2f()
+    end
+end
+
+function TS_forEach(list, func)
+    for i, v in ipairs(list) do
+        func(v, i-1, list)
+    end
+end
+
+function TS_map(list, func)
+    local out = {}
+    for _, v in ipairs(list) do
+        table.insert(out, func(v))
+    end
+    return out
+end
+
+function TS_filter(list, func)
+    local out = {}
+    for _, v in ipairs(list) do
+        if func(v) then
+            table.insert(out, v)
+        end
+    end
+    return out
+end
+
+function TS_slice(list, startI, endI)
+    if not endI or endI > #list then endI = #list end
+    if startI < 0 then startI = math.max(#list + startI, 1) end
+    if endI < 0 then endI = math.max(#list + endI, 1) end
+    local out = {}
+    for i = startI + 1, endI do
+        table.insert(out, list[i])
+    end
+    return out
+end
+
+-- https://www.ecma-international.org/publications/files/ECMA-ST/Ecma-262.pdf
+function TS_splice(list, start, deleteCount, ...)
+    -- 1. 2.
+    local len = #list
+
+    local actualStart
+
+    -- 4.
+    if start <  0 then
+        actualStart = math.max(len + start, 0)
+    else
+        actualStart = math.min(start, len)
+    end
+
+    -- 13.
+    local items = {...}
+    -- 14.
+    local itemCount = #items
+
+    -- 5. - 7.
+    local actualDeleteCount
+
+    if not start then
+        actualDeleteCount = 0
+    elseif not deleteCount then
+        actualDeleteCount = len - actualStart
+    else
+        actualDeleteCount = math.min(math.max(deleteCount, 0), len - actualStart)
+    end
+
+    -- 8. ignored
+
+    -- 9.
+    local out = {}
+
+    -- 10.
+    local k
+
+    k = 0
+
+    -- 11.
+    while k < actualDeleteCount do
+        local from = actualStart + k
+
+        if list[from + 1] then
+            out[k + 1] = list[from + 1]
+        end
+
+        k = k + 1
+    end
+
+    -- 15.
+    if itemCount < actualDeleteCount then
+        -- a. b.
+        k = actualStart
+        while k < len - actualDeleteCount do
+            local from = k + actualDeleteCount
+            local to = k + itemCount
+
+            if list[from + 1] then
+                list[to + 1] = list[from + 1]
+            else
+                list[to + 1] = nil
+            end
+
+            k = k + 1
+        end
+        -- c. d.
+        k = len
+        while k > len - actualDeleteCount + itemCount do
+            list[k] = nil
+            k = k - 1
+        end
+    -- 16.
+    elseif itemCount > actualDeleteCount then
+        k = len - actualDeleteCount
+        while k > actualStart do
+            local from = k + actualDeleteCount
+            local to = k + itemCount
+
+            if list[from] then
+                list[to] = list[from]
+            else
+                list[to] = nil
+            end
+
+            k = k - 1
+        end
+    end
+
+    -- 17.
+    k = actualStart
+
+    -- 18.
+    for _, e in ipairs(items) do
+        list[k + 1] = e
+        k = k + 1
+    end
+
+    -- 19.
+    k = #list
+    while k > len - actualDeleteCount + itemCount do
+        list[k] = nil
+        k = k - 1
+    end
+
+    -- 20.
+    return out
+end
+
+function TS_some(list, func)
+    return #TS_filter(list, func) > 0
+end
+
+function TS_every(list, func)
+    return #list == #TS_filter(list, func)
+end
+
+function TS_indexOf(list, object )
+    for i = 1, #list do
+        if object == list[i] then
+            return i - 1
+        end
+    end
+    return -1
+end
+
+function TS_replace(source, searchVal, newVal)
+    local result = string.gsub(source, searchVal, newVal)
+    return result
+end
+
+function TS_split(str, separator)
+    local out = {}
+
+    if separator == "" then
+        string.gsub(str,".", function(c)
+            table.insert(out, c)
+        end)
+        return out
+    end
+
+    if not string.find(str, separator) then
+        return { str }
+    end
+
+    local fstr = str .. separator
+    local fpat = "(.-)" .. separator
+    local last_end = 1
+    local s, e, cap = string.find(fstr, fpat, 1)
+    while s do
+        table.insert(out, cap)
+        last_end = e+1
+        s, e, cap = string.find(fstr, fpat, last_end)
+    end
+    if last_end <= #str then
+        cap = string.sub(fstr, last_end)
+        table.insert(out, cap)
+    end
+    return out
+end
+
+function TS_push(list, ...)
+    for _, v in ipairs({...}) do
+        list[#list + 1] = v
+    end
+end
+
+-- Concatenate array segments, segments with an n field may contain nil values
+local function TS_concatSegments(...)
+    local out = {}
+    local length = 0
+    for i = 1, select("#", ...) do
+        local segment = select(i, ...)
+        local segmentLength = segment.n or #segment
+        for j = 1, segmentLength do
+            out[length + j] = segment[j]
+        end
+        length = length + segmentLength
+    end
+    return out, length
+end
+
+function TS_spreadArray(...)
+    local out = TS_concatSegments(...)
+    return out
+end
+
+function TS_spreadArguments(...)
+    local out, length = TS_concatSegments(...)
+    return (table.unpack or unpack)(out, 1, length)
+end
+
+-- Closure calling fn with the bound arguments followed by its own arguments
+function TS_bind(fn, ...)
+    local bound = {n = select("#", ...), ...}
+    return function(...)
+        return fn(TS_spreadArguments(bound, {n = select("#", ...), ...}))
+    end
+end
+
+-- Closure calling the method obj[key] with obj as self
+function TS_bindMethod(obj, key)
+    local method = obj[key]
+    return function(...)
+        return method(obj, ...)
+    end
+end
+
+function TS_objectRest(obj, excluded)
+    local out = {}
+    for k, v in pairs(obj) do
+        if not excluded[k] then
+            out[k] = v
+        end
+    end
+    return out
+end
+
+function TS_objectAssign(target, ...)
+    for i = 1, select("#", ...) do
+        local source = select(i, ...)
+        -- Spreading null or undefined is allowed
+        if source ~= nil then
+            for k, v in pairs(source) do
+                target[k] = v
+            end
+        end
+    end
+    return target
+end
+
+-- Back object literal get/set accessors with a metatable
+function TS_defineAccessors(obj, accessors)
+    return setmetatable(obj, {
+        __index = function(self, key)
+            local accessor = accessors[key]
+            if accessor and accessor.get then
+                return accessor.get(self)
+            end
+        end,
+        __newindex = function(self, key, value)
+            local accessor = accessors[key]
+            if accessor then
+                if not accessor.set then
+                    error("Cannot set property " .. tostring(key) .. " which has only a getter")
+                end
+                accessor.set(self, value)
+            else
+                rawset(self, key, value)
+            end
+        end,
+    })
+end
+
+-- Call a method that can't be called with : because its name is a keyword, i.e. promise:then()
+function TS_callMethod(obj, key, ...)
+    return obj[key](obj, ...)
+end
+
+-- Error raised by yield when the generator is closed with return(), catch blocks let it pass so only finally
+-- blocks run while it unwinds the generator body
+local TS_GeneratorReturn = {}
+
+function TS_isGeneratorReturn(err)
+    return type(err) == "table" and getmetatable(err) == TS_GeneratorReturn
+end
+
+-- Generator object running the generator body in a coroutine
+function TS_generator(fn)
+    local co = coroutine.create(fn)
+    local started = false
+    local done = false
+
+    local function resume(command, arg)
+        started = true
+        local ok, value = coroutine.resume(co, command, arg)
+        if not ok then
+            done = true
+            if TS_isGeneratorReturn(value) then
+                return {value = value.value, done = true}
+            end
+            error(value, 0)
+        end
+        if coroutine.status(co) == "dead" then
+            done = true
+        end
+        return {value = value, done = done}
+    end
+
+    local generator = {}
+    function generator.next(self, value)
+        if done then
+            return {done = true}
+        end
+        return resume("next", value)
+    end
+    -- Closes the generator, pending finally blocks run and can still yield
+    generator["return"] = function(self, value)
+        if done or not started then
+            done = true
+            return {value = value, done = true}
+        end
+        return resume("return", value)
+    end
+    function generator.throw(self, err)
+        if done or not started then
+            done = true
+            error(err, 0)
+        end
+        return resume("throw", err)
+    end
+    return generator
+end
+
+-- Suspend the running generator, returns the value passed to next()
+function TS_yield(value)
+    local command, arg = coroutine.yield(value)
+    if command == "throw" then
+        error(arg, 0)
+    elseif command == "return" then
+        error(setmetatable({value = arg}, TS_GeneratorReturn), 0)
+    end
+    return arg
+end
+
+-- Delegate to another generator or iterator, or yield all elements of an array
+function TS_yieldStar(iterable)
+    if type(iterable.next) ~= "function" then
+        for _, value in ipairs(iterable) do
+            TS_yield(value)
+        end
+        return nil
+    end
+    local result = iterable:next()
+    while not result.done do
+        result = iterable:next(TS_yield(result.value))
+    end
+    return result.value
+end
+
+-- Close an iterator a for...of loop leaves before it is done, running the finally blocks of a generator
+function TS_iteratorClose(iterator)
+    local close = iterator["return"]
+    if type(close) == "function" then
+        close(iterator)
+    end
+end
+
+-- Close the iterators of the loops a return statement leaves, after its values are evaluated
+function TS_closeIterators(iterators, ...)
+    for _, iterator in ipairs(iterators) do
+        TS_iteratorClose(iterator)
+    end
+    return ...
+end
+
+-- Lua iterator over an iterator or generator object, use as: for _, value in TS_iterator(it)
+-- Map and Set keys/values/entries are plain arrays, those are iterated with ipairs
+function TS_iterator(iterator)
+    if type(iterator.next) ~= "function" then
+        return ipairs(iterator)
+    end
+    return function()
+        local result = iterator:next()
+        if not result.done then
+            return true, result.value
+        end
+    end
+end
+
+function TS_instanceof(obj, class)
+    if type(obj) ~= "table" then
+        return false
+    end
+    local objClass = getmetatable(obj)
+    while objClass ~= nil do
+        if objClass == class then
+            return true
+        end
+        objClass = rawget(objClass, "__base")
+    end
+    return false
+end
+
+-- Dispatch property access on class instances to the get__/set__ accessor methods, including inherited ones
+function TS_classAccessors(class)
+    class.__index = function(self, key)
+        local getter = type(key) == "string" and class["get__" .. key]
+        if getter then
+            return getter(self)
+        end
+        return class[key]
+    end
+    class.__newindex = function(self, key, value)
+        if type(key) == "string" then
+            local setter = class["set__" .. key]
+            if setter then
+                setter(self, value)
+                return
+            elseif class["get__" .. key] then
+                error("Cannot set property " .. key .. " which has only a getter")
+            end
+        end
+        rawset(self, key, value)
+    end
+end
+
+-- Error implementation, the stack trace is captured when the error is constructed
+Error = Error or {}
+Error.__index = Error
+Error.name = "Error"
+function Error.new(construct, ...)
+    local instance = setmetatable({}, Error)
+    if construct then Error.constructor(instance, ...) end
+    return instance
+end
+function Error.constructor(self, message)
+    if message == nil then
+        message = ""
+    end
+    self.message = tostring(message)
+    self.stack = debug.traceback(Error.toString(self), 3)
+    -- Metamethods are not inherited, give classes extending Error a __tostring as well
+    local class = getmetatable(self)
+    if rawget(class, "__tostring") == nil then
+        rawset(class, "__tostring", Error.__tostring)
+    end
+end
+function Error.toString(self)
+    if self.message == "" then
+        return self.name
+    end
+    return self.name .. ": " .. self.message
+end
+Error.__tostring = function(self)
+    return self:toString()
+end
+-- Error classes can be called without new
+Error.__call = function(class, ...)
+    return class.new(true, ...)
+end
+setmetatable(Error, { __call = Error.__call })
+
+local function TS_errorClass(name)
+    local class = Error.new()
+    class.__index = class
+    class.__base = Error
+    class.name = name
+    function class.new(construct, ...)
+        local instance = setmetatable({}, class)
+        if construct then class.constructor(instance, ...) end
+        return instance
+    end
+    return class
+end
+TypeError = TypeError or TS_errorClass("TypeError")
+RangeError = RangeError or TS_errorClass("RangeError")
+
+-- Set data structure implementation
+Set = Set or {}
+Set.__index = Set
+function Set.new(construct, ...)
+    local instance = setmetatable({}, Set)
+    Set.constructor(instance, ...)
+    return instance
+end
+function Set.constructor(self, other)
+    self._items = {}
+    self.size = 0
+    if other then
+        self.size = #other
+        for _, a in pairs(other) do
+            self._items[a] = true
+        end
+    end
+end
+function Set.add(self, item)
+    self._items[item] = true
+    self.size = self.size + 1
+end
+function Set.clear(self)
+    self._items = {}
+    self.size = 0
+end
+function Set.delete(self, item)
+    local contains = Set.has(self, item)
+    self._items[item] = nil
+    self.size = self.size - 1
+    return contains
+end
+function Set.entries(self)
+    local out = {}
+    for item, _ in pairs(self._items) do
+        table.insert(out, {item, item})
+    end
+    return out
+end
+function Set.forEach(self, callbackFn)
+    for k, v in pairs(self._items) do
+        callbackFn(k, k, self)
+    end
+end
+function Set.has(self, item) return self._items[item] ~= nil end
+function Set.keys(self)
+    return Set.values(self)
+end
+function Set.values(self)
+    local out = {}
+    for k, _ in pairs(self._items) do
+        table.insert(out, k)
+    end
+    return out
+end
+
+-- Set data structure implementation
+Map = Map or {}
+Map.__index = Map
+function Map.new(construct, ...)
+    local instance = setmetatable({}, Map)
+    Map.constructor(instance, ...)
+    return instance
+end
+function Map.constructor(self, other)
+    self._items = {}
+    self.size = 0
+    if other then
+        self.size = #other
+        for _, v in pairs(other) do
+            self._items[v[1]] = v[2]
+        end
+    end
+end
+function Map.clear(self)
+    self._items = {}
+    self.size = 0
+end
+function Map.delete(self, key)
+    local contains = self.has(self, key)
+    self._items[key] = nil
+    self.size = self.size - 1
+    return contains
+end
+function Map.entries(self)
+    local out = {}
+    for k, v in pairs(self._items) do
+        table.insert(out, {k, v})
+    end
+    return out
+end
+function Map.forEach(self, callbackFn)
+    for k, v in pairs(self._items) do
+        callbackFn(v, k, self)
+    end
+end
+function Map.get(self, key) return self._items[key] end
+function Map.has(self, key) return self._items[key] ~= nil end
+function Map.keys(self)
+    local out = {}
+    for k, v in pairs(self._items) do
+        table.insert(out, k)
+    end
+    return out
+end
+function Map.set(self, key, value)
+    self._items[key] = value
+    self.size = self.size + 1
+    return self
+end
+function Map.values(self)
+    local out = {}
+    for k, v in pairs(self._items) do
+        table.insert(out, v)
+    end
+    return out
+end
+
+-- Promise jobs waiting to be run
+TS_microtaskQueue = TS_microtaskQueue or {}
+local TS_microtasksScheduled = false
+
+-- Called with TS_runMicrotasks whenever jobs are queued and no run is scheduled yet. The default leaves the jobs
+-- queued until the outermost transpiled file finishes running its top-level code, see TS_endFile. Jobs queued later,
+-- i.e. from callbacks the host calls, wait for the host to call TS_runMicrotasks. Hosts can replace this to schedule
+-- the run themselves, i.e. TS_scheduleMicrotasks = function(run) pending = run end
+TS_scheduleMicrotasks = TS_scheduleMicrotasks or function(run) end
+
+function TS_runMicrotasks()
+    -- Jobs queued while running are run in the same call
+    while #TS_microtaskQueue > 0 do
+        local queue = TS_microtaskQueue
+        TS_microtaskQueue = {}
+        for _, job in ipairs(queue) do
+            job()
+        end
+    end
+    TS_microtasksScheduled = false
+end
+
+-- Number of transpiled files running their top-level code, files required by other files are nested
+TS_fileDepth = TS_fileDepth or 0
+
+function TS_beginFile()
+    TS_fileDepth = TS_fileDepth + 1
+end
+
+function TS_endFile()
+    TS_fileDepth = TS_fileDepth - 1
+    if TS_fileDepth == 0 then
+        TS_runMicrotasks()
+    end
+end
+
+function TS_queueMicrotask(job)
+    table.insert(TS_microtaskQueue, job)
+    if not TS_microtasksScheduled then
+        TS_microtasksScheduled = true
+        TS_scheduleMicrotasks(TS_runMicrotasks)
+    end
+end
+
+-- Promise implementation
+Promise = Promise or {}
+Promise.__index = Promise
+function Promise.new(construct, ...)
+    local instance = setmetatable({}, Promise)
+    Promise.constructor(instance, ...)
+    return instance
+end
+
+local TS_resolvePromise
+
+local function TS_settlePromise(promise, state, value)
+    if promise._state ~= "pending" then return end
+    promise._state = state
+    promise._value = value
+    for _, callback in ipairs(promise._callbacks) do
+        TS_queueMicrotask(callback)
+    end
+    promise._callbacks = nil
+end
+
+-- Resolve and reject functions of which only the first call has effect
+local function TS_promiseResolvers(promise)
+    local called = false
+    local function resolve(value)
+        if called then return end
+        called = true
+        TS_resolvePromise(promise, value)
+    end
+    local function reject(reason)
+        if called then return end
+        called = true
+        TS_settlePromise(promise, "rejected", reason)
+    end
+    return resolve, reject
+end
+
+TS_resolvePromise = function(promise, value)
+    if value == promise then
+        TS_settlePromise(promise, "rejected", "TypeError: Chaining cycle detected for promise")
+        return
+    end
+    -- Adopt the state of thenables
+    if type(value) == "table" then
+        local ok, thenFn = pcall(function() return value["then"] end)
+        if not ok then
+            TS_settlePromise(promise, "rejected", thenFn)
+            return
+        end
+        if type(thenFn) == "function" then
+            local resolve, reject = TS_promiseResolvers(promise)
+            TS_queueMicrotask(function()
+                local success, err = pcall(thenFn, value, resolve, reject)
+                if not success then reject(err) end
+            end)
+            return
+        end
+    end
+    TS_settlePromise(promise, "fulfilled", value)
+end
+
+function Promise.constructor(self, executor)
+    self._state = "pending"
+    self._callbacks = {}
+    local resolve, reject = TS_promiseResolvers(self)
+    local ok, err = pcall(executor, resolve, reject)
+    if not ok then reject(err) end
+end
+Promise["then"] = function(self, onFulfilled, onRejected)
+    local result = Promise.new(true, function() end)
+    local resolve, reject = TS_promiseResolvers(result)
+    local function callback()
+        local fulfilled = self._state == "fulfilled"
+        local handler = onRejected
+        if fulfilled then handler = onFulfilled end
+        if type(handler) ~= "function" then
+            if fulfilled then resolve(self._value) else reject(self._value) end
+            return
+        end
+        local ok, value = pcall(handler, self._value)
+        if ok then resolve(value) else reject(value) end
+    end
+    if self._state == "pending" then
+        table.insert(self._callbacks, callback)
+    else
+        TS_queueMicrotask(callback)
+    end
+    return result
+end
+function Promise.catch(self, onRejected)
+    return self["then"](self, nil, onRejected)
+end
+function Promise.finally(self, onFinally)
+    if type(onFinally) ~= "function" then
+        return self["then"](self, onFinally, onFinally)
+    end
+    return self["then"](self,
+        function(value)
+            local promise = Promise.resolve(Promise, onFinally())
+            return promise["then"](promise, function() return value end)
+        end,
+        function(reason)
+            local promise = Promise.resolve(Promise, onFinally())
+            return promise["then"](promise, function() error(reason, 0) end)
+        end)
+end
+function Promise.resolve(self, value)
+    if getmetatable(value) == Promise then return value end
+    return Promise.new(true, function(resolve) resolve(value) end)
+end
+function Promise.reject(self, reason)
+    return Promise.new(true, function(_, reject) reject(reason) end)
+end
+function Promise.all(self, values)
+    return Promise.new(true, function(resolve, reject)
+        local results = {}
+        local remaining = #values
+        if remaining == 0 then
+            resolve(results)
+            return
+        end
+        for i = 1, #values do
+            local promise = Promise.resolve(Promise, values[i])
+            promise["then"](promise, function(value)
+                results[i] = value
+                remaining = remaining - 1
+                if remaining == 0 then resolve(results) end
+            end, reject)
+        end
+    end)
+end
+function Promise.race(self, values)
+    return Promise.new(true, function(resolve, reject)
+        for i = 1, #values do
+            local promise = Promise.resolve(Promise, values[i])
+            promise["then"](promise, resolve, reject)
+        end
+    end)
+end
+
+-- Run an async function body in a coroutine, resuming it whenever an awaited value settles
+function TS_async(fn)
+    return Promise.new(true, function(resolve, reject)
+        local co = coroutine.create(fn)
+        local function step(ok, value)
+            local success, result = coroutine.resume(co, ok, value)
+            if not success then
+                reject(result)
+            elseif coroutine.status(co) == "dead" then
+                resolve(result)
+            else
+                local promise = Promise.resolve(Promise, result)
+                promise["then"](promise,
+                    function(v) step(true, v) end,
+                    function(r) step(false, r) end)
+            end
+        end
+        step(true, nil)
+    end)
+end
+
+-- Suspend the running async function until value settles
+function TS_await(value)
+    local ok, result = coroutine.yield(value)
+    if not ok then
+        error(result, 0)
+    end
+    return result
+end
@@ -7,6 +7,7 @@ export interface CompilerOptions extends ts.CompilerOptions {
     addHeader?: boolean;
     luaTarget?: string;
     dontRequireLuaLib?: boolean;
+    metatableAccessors?: boolean;
 }
 
 export interface ParsedCommandLine extends ts.ParsedCommandLine {
@@ -36,6 +37,11 @@ const optionDeclarations: { [key: string]: yargs.Options } = {
         describe: "Specify Lua target version.",
         type: "string",
     },
+    metatableAccessors: {
+        default: false,
+        describe: "Dispatch property access on class instances to accessors with __index and __newindex.",
+        type: "boolean",
+    },
 };
 
 /**
@@ -1,5 +1,12 @@
 import * as ts from "typescript";
 
+import { SwitchClauseGroup } from "./Transpiler";
+
+const luaKeywords = [
+    "and", "break", "do", "else", "elseif", "end", "false", "for", "function", "goto", "if", "in",
+    "local", "nil", "not", "or", "repeat", "return", "then", "true", "until", "while",
+];
+
 export class TSHelper {
 
     // Reverse lookup of enum key by value
@@ -23,11 +30,7 @@ export class TSHelper {
         return result;
     }
 
-    public static containsStatement(statements: ts.NodeArray<ts.Statement>, kind: ts.SyntaxKind): boolean {
-        return statements.some(statement => statement.kind === kind);
-    }
-
-    public static getExtendedType(node: ts.ClassDeclaration, checker: ts.TypeChecker): ts.Type | undefined {
+    public static getExtendedType(node: ts.ClassLikeDeclaration, checker: ts.TypeChecker): ts.Type | undefined {
         if (node.heritageClauses) {
             for (const clause of node.heritageClauses) {
                 if (clause.token === ts.SyntaxKind.ExtendsKeyword) {
@@ -41,6 +44,17 @@ export class TSHelper {
         return undefined;
     }
 
+    public static getExtendsExpression(node: ts.ClassLikeDeclaration): ts.Expression | undefined {
+        if (node.heritageClauses) {
+            for (const clause of node.heritageClauses) {
+                if (clause.token === ts.SyntaxKind.ExtendsKeyword) {
+                    return clause.types[0].expression;
+                }
+            }
+        }
+        return undefined;
+    }
+
     public static isFileModule(sourceFile: ts.SourceFile) {
         if (sourceFile) {
             // Vanilla ts flags files as external module if they have an import or
@@ -57,17 +71,243 @@ export class TSHelper {
         return node.parent && ts.isVariableDeclaration(node.parent) && ts.isArrayBindingPattern(node.parent.name);
     }
 
+    // Array binding pattern containing only plain identifiers, i.e. [a, b]
+    public static isSimpleArrayBindingPattern(pattern: ts.ArrayBindingPattern): boolean {
+        const isSimpleElement = (element: ts.ArrayBindingElement) =>
+            ts.isBindingElement(element)
+            && ts.isIdentifier(element.name)
+            && element.initializer === undefined;
+        return pattern.elements.every(isSimpleElement);
+    }
+
+    // Array assignment pattern containing only plain assignment targets, i.e. [a, b.c]
+    public static isSimpleArrayAssignmentPattern(pattern: ts.ArrayLiteralExpression, checker: ts.TypeChecker) {
+        return pattern.elements.every(element =>
+            (ts.isIdentifier(element)
+                || ts.isPropertyAccessExpression(element)
+                || ts.isElementAccessExpression(element))
+            && !this.hasSetAccessor(element, checker));
+    }
+
+    // Assignment to an array or object literal pattern, i.e. [a, b] = c or ({ a, b } = c)
+    public static isDestructuringAssignment(node: ts.Node): boolean {
+        return ts.isBinaryExpression(node)
+            && node.operatorToken.kind === ts.SyntaxKind.EqualsToken
+            && (ts.isArrayLiteralExpression(node.left) || ts.isObjectLiteralExpression(node.left));
+    }
+
+    // Whether the value of the expression is unused: expression statements, for loop initializers and
+    // incrementors, and operands of comma expressions in those positions
+    public static isExpressionStatement(node: ts.Expression): boolean {
+        let parent = node.parent;
+        while (parent && ts.isParenthesizedExpression(parent)) {
+            node = parent;
+            parent = parent.parent;
+        }
+        if (!parent) {
+            return false;
+        }
+        if (ts.isExpressionStatement(parent)) {
+            return true;
+        }
+        if (ts.isForStatement(parent)) {
+            return parent.initializer === node || parent.incrementor === node;
+        }
+        if (ts.isBinaryExpression(parent) && parent.operatorToken.kind === ts.SyntaxKind.CommaToken) {
+            return parent.left === node || this.isExpressionStatement(parent);
+        }
+        return false;
+    }
+
+    public static isIterationStatement(node: ts.Node): node is ts.IterationStatement {
+        return ts.isWhileStatement(node)
+            || ts.isDoStatement(node)
+            || ts.isForStatement(node)
+            || ts.isForOfStatement(node)
+            || ts.isForInStatement(node);
+    }
+
+    // Group switch clauses that share statements, empty clauses fall through into the next one
+    public static getSwitchClauseGroups(node: ts.SwitchStatement): SwitchClauseGroup[] {
+        const groups: SwitchClauseGroup[] = [];
+        let group: SwitchClauseGroup = { cases: [], isDefault: false, statements: [] };
+        node.caseBlock.clauses.forEach((clause, index) => {
+            if (ts.isCaseClause(clause)) {
+                group.cases.push(clause);
+            } else {
+                group.isDefault = true;
+            }
+            if (clause.statements.length > 0 || index === node.caseBlock.clauses.length - 1) {
+                group.statements = clause.statements.slice();
+                groups.push(group);
+                group = { cases: [], isDefault: false, statements: [] };
+            }
+        });
+        return groups;
+    }
+
+    // Break statements inside a switch that exit the switch itself
+    public static getSwitchBreaks(node: ts.SwitchStatement, labels: string[]): ts.BreakStatement[] {
+        const breaks: ts.BreakStatement[] = [];
+        const visit = (child: ts.Node, isNested: boolean) => {
+            if (ts.isFunctionLike(child) || ts.isClassLike(child)) {
+                return;
+            }
+            if (ts.isBreakStatement(child)) {
+                if (child.label ? labels.indexOf(child.label.text) !== -1 : !isNested) {
+                    breaks.push(child);
+                }
+                return;
+            }
+            const isBreakTarget = this.isIterationStatement(child) || ts.isSwitchStatement(child);
+            ts.forEachChild(child, grandChild => visit(grandChild, isNested || isBreakTarget));
+        };
+        node.caseBlock.clauses.forEach(clause => clause.statements.forEach(statement => visit(statement, false)));
+        return breaks;
+    }
+
+    // The statement executed last in a list of statements, looking into trailing blocks
+    public static getTrailingStatement(statements: ReadonlyArray<ts.Statement>): ts.Statement | undefined {
+        const last = statements[statements.length - 1];
+        if (last && ts.isBlock(last) && last.statements.length > 0) {
+            return this.getTrailingStatement(last.statements);
+        }
+        return last;
+    }
+
+    // Whether a switch can be an if/elseif chain: no clause group falls through into the next, and the case
+    // expressions grouped with default can be skipped when checking for the default
+    public static isSimpleSwitch(groups: SwitchClauseGroup[]): boolean {
+        const fallsThrough = groups.slice(0, -1).some(group => {
+            const last = this.getTrailingStatement(group.statements);
+            return !last || !(ts.isBreakStatement(last)
+                || ts.isContinueStatement(last)
+                || ts.isReturnStatement(last)
+                || ts.isThrowStatement(last));
+        });
+        const defaultGroup = groups.filter(group => group.isDefault)[0];
+        const hasSkippedCases = defaultGroup !== undefined && defaultGroup.cases.some(clause =>
+            !ts.isLiteralExpression(clause.expression) && !ts.isIdentifier(clause.expression)
+            && !ts.isPropertyAccessExpression(clause.expression));
+        return !fallsThrough && !hasSkippedCases;
+    }
+
+    // Assignment of a default value inside an assignment pattern, i.e. the a = 1 in [a = 1] = []
+    public static isDefaultValueAssignment(node: ts.Node): node is ts.BinaryExpression {
+        return ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.EqualsToken;
+    }
+
+    // Get all identifiers declared by a (possibly destructuring) variable name
+    public static getBindingIdentifiers(name: ts.BindingName): ts.Identifier[] {
+        if (ts.isIdentifier(name)) {
+            return [name];
+        }
+        const identifiers: ts.Identifier[] = [];
+        (name.elements as ts.NodeArray<ts.ArrayBindingElement>).forEach(element => {
+            if (!ts.isOmittedExpression(element)) {
+                identifiers.push(...this.getBindingIdentifiers(element.name));
+            }
+        });
+        return identifiers;
+    }
+
+    public static isLuaIdentifier(str: string): boolean {
+        return /^[A-Za-z_][A-Za-z0-9_]*$/.test(str) && luaKeywords.indexOf(str) === -1;
+    }
+
+    // Escape a string so it can be used inside a double quoted Lua string literal
+    public static escapeString(text: string): string {
+        const escapeSequences: Array<[RegExp, string]> = [
+            [/\\/g, "\\\\"],
+            [/"/g, "\\\""],
+            [/\n/g, "\\n"],
+            [/\r/g, "\\r"],
+            [/\t/g, "\\t"],
+            [/\f/g, "\\f"],
+            [/\v/g, "\\v"],
+            [/\0/g, "\\000"],
+        ];
+        return escapeSequences.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+    }
+
+    // Check if a list contains a spread element that is not the last element, i.e. [...a, b]
+    public static hasNonTrailingSpread(elements: ts.NodeArray<ts.Expression>): boolean {
+        return elements.some((element, index) => ts.isSpreadElement(element) && index < elements.length - 1);
+    }
+
+    // Array literal that can be spread by inlining its elements, i.e. the [1, 2] in f(...[1, 2])
+    public static isSpreadableArrayLiteral(node: ts.Expression): node is ts.ArrayLiteralExpression {
+        return ts.isArrayLiteralExpression(node) && !node.elements.some(ts.isSpreadElement);
+    }
+
     public static isStringType(type: ts.Type): boolean {
         return (type.flags & ts.TypeFlags.String) !== 0
             || (type.flags & ts.TypeFlags.StringLike) !== 0
             || (type.flags & ts.TypeFlags.StringLiteral) !== 0;
     }
 
+    // Whether a value of the type can be false or nil in Lua, i.e. it is not known to be a number, string or table
+    public static canBeFalseOrNil(type: ts.Type): boolean {
+        if (type.flags & ts.TypeFlags.Union) {
+            return (type as ts.UnionType).types.some(member => this.canBeFalseOrNil(member));
+        }
+        if (type.flags & ts.TypeFlags.Intersection) {
+            return (type as ts.IntersectionType).types.every(member => this.canBeFalseOrNil(member));
+        }
+        const truthyFlags = ts.TypeFlags.StringLike
+            | ts.TypeFlags.NumberLike
+            | ts.TypeFlags.ESSymbolLike
+            | ts.TypeFlags.Object
+            | ts.TypeFlags.NonPrimitive;
+        return (type.flags & truthyFlags) === 0;
+    }
+
+    // Whether an expression yields a value regardless of null checks: a literal, a non-null assertion or the result
+    // of arithmetic, which Lua can not compute from nil
+    public static isNonNullExpression(expression: ts.Expression): boolean {
+        switch (expression.kind) {
+            case ts.SyntaxKind.NumericLiteral:
+            case ts.SyntaxKind.StringLiteral:
+            case ts.SyntaxKind.NoSubstitutionTemplateLiteral:
+            case ts.SyntaxKind.TemplateExpression:
+            case ts.SyntaxKind.ArrayLiteralExpression:
+            case ts.SyntaxKind.ObjectLiteralExpression:
+            case ts.SyntaxKind.FunctionExpression:
+            case ts.SyntaxKind.ArrowFunction:
+            case ts.SyntaxKind.ClassExpression:
+            case ts.SyntaxKind.NonNullExpression:
+                return true;
+            case ts.SyntaxKind.ParenthesizedExpression:
+                return this.isNonNullExpression((expression as ts.ParenthesizedExpression).expression);
+            case ts.SyntaxKind.BinaryExpression:
+                const arithmetic = [
+                    ts.SyntaxKind.PlusToken,
+                    ts.SyntaxKind.MinusToken,
+                    ts.SyntaxKind.AsteriskToken,
+                    ts.SyntaxKind.SlashToken,
+                    ts.SyntaxKind.PercentToken,
+                ];
+                return arithmetic.indexOf((expression as ts.BinaryExpression).operatorToken.kind) !== -1;
+            default:
+                return false;
+        }
+    }
+
     public static isArrayType(type: ts.Type, checker: ts.TypeChecker): boolean {
         const typeNode = checker.typeToTypeNode(type);
         return typeNode && (typeNode.kind === ts.SyntaxKind.ArrayType || typeNode.kind === ts.SyntaxKind.TupleType);
     }
 
+    public static isAsyncFunction(node: ts.FunctionLikeDeclaration): boolean {
+        return (ts.getCombinedModifierFlags(node) & ts.ModifierFlags.Async) !== 0;
+    }
+
+    // Iterators returned by generator functions and other IterableIterator/Iterator values
+    public static isIteratorType(type: ts.Type): boolean {
+        return type.symbol !== undefined
+            && ["Iterator", "IterableIterator", "Generator"].indexOf(type.symbol.escapedName as string) !== -1;
+    }
+
     public static isCompileMembersOnlyEnum(type: ts.Type, checker: ts.TypeChecker): boolean {
         return type.symbol
             && ((type.symbol.flags & ts.SymbolFlags.Enum) !== 0)
@@ -110,17 +350,48 @@ export class TSHelper {
     }
 
     public static hasCustomDecorator(type: ts.Type, checker: ts.TypeChecker, decorator: string): boolean {
-        if (type.symbol) {
-            const comments = type.symbol.getDocumentationComment(checker);
-            const decorators =
-                comments.filter(comment => comment.kind === "text")
-                    .map(comment => comment.text.trim())
-                    .filter(comment => comment[0] === "!");
-            return decorators.indexOf(decorator) > -1;
+        return type.symbol !== undefined && this.hasSymbolDecorator(type.symbol, checker, decorator);
+    }
+
+    public static hasSymbolDecorator(symbol: ts.Symbol, checker: ts.TypeChecker, decorator: string): boolean {
+        const comments = symbol.getDocumentationComment(checker);
+        const decorators =
+            comments.filter(comment => comment.kind === "text")
+                .map(comment => comment.text.trim())
+                .filter(comment => comment[0] === "!");
+        return decorators.indexOf(decorator) > -1;
+    }
+
+    // Check for a decorator on the declaration or the declarations containing it, i.e. its class or namespace
+    public static hasDeclarationDecorator(node: ts.Node, checker: ts.TypeChecker, decorator: string): boolean {
+        for (let current = node; current !== undefined; current = current.parent) {
+            const isContainer = current === node
+                || ts.isClassLike(current)
+                || ts.isInterfaceDeclaration(current)
+                || ts.isModuleDeclaration(current)
+                || ts.isTypeAliasDeclaration(current)
+                || ts.isPropertySignature(current)
+                || ts.isPropertyDeclaration(current)
+                || ts.isVariableDeclaration(current);
+            const name = (current as ts.NamedDeclaration).name;
+            const symbol = isContainer && name && checker.getSymbolAtLocation(name);
+            if (symbol && this.hasSymbolDecorator(symbol, checker, decorator)) {
+                return true;
+            }
         }
         return false;
     }
 
+    // Check for a decorator in the comments at the start of the file
+    public static hasFileDecorator(sourceFile: ts.SourceFile, decorator: string): boolean {
+        const comments = ts.getLeadingCommentRanges(sourceFile.text, 0) || [];
+        return comments.some(comment => sourceFile.text.substring(comment.pos, comment.end)
+            .replace(/^\/\*+|\*+\/$|^\/\//g, "")
+            .split("\n")
+            .map(line => line.replace(/^\s*\*?\s*/, "").trim())
+            .indexOf(decorator) > -1);
+    }
+
     // Search up until finding a node satisfying the callback
     public static findFirstNodeAbove<T extends ts.Node>(node: ts.Node, callback: (n: ts.Node) => n is T): T {
         let current = node;
@@ -134,32 +405,503 @@ export class TSHelper {
         return null;
     }
 
-    public static hasGetAccessor(node: ts.Node, checker: ts.TypeChecker): boolean {
-        if (ts.isPropertyAccessExpression(node)) {
-            const name = node.name.escapedText;
-            const type = checker.getTypeAtLocation(node.expression);
+    // Find the try statement whose try or catch block contains the node within the same function,
+    // these blocks are transpiled to functions so returns and jumps out of them have to be propagated
+    public static findEnclosingTry(node: ts.Node): ts.TryStatement | undefined {
+        let current = node;
+        while (current.parent && !ts.isFunctionLike(current.parent) && !ts.isClassLike(current.parent)) {
+            const parent = current.parent;
+            if (ts.isTryStatement(parent) && (current === parent.tryBlock || current === parent.catchClause)) {
+                return parent;
+            }
+            current = parent;
+        }
+        return undefined;
+    }
+
+    // Check if a node is the container node or one of its descendants
+    public static isInside(node: ts.Node, container: ts.Node): boolean {
+        let current = node;
+        while (current) {
+            if (current === container) {
+                return true;
+            }
+            current = current.parent;
+        }
+        return false;
+    }
+
+    // Check if a symbol is referenced anywhere in a value position, references in types are ignored
+    public static isReferencedAsValue(symbol: ts.Symbol, root: ts.Node, checker: ts.TypeChecker): boolean {
+        const visit = (node: ts.Node): boolean => {
+            if (ts.isImportDeclaration(node)
+                || ts.isInterfaceDeclaration(node)
+                || ts.isTypeAliasDeclaration(node)
+                || (ts.isHeritageClause(node) && node.token === ts.SyntaxKind.ImplementsKeyword)) {
+                return false;
+            }
+            if (ts.isExpressionWithTypeArguments(node)) {
+                // Class extends clauses are values, their type arguments are not
+                return visit(node.expression);
+            }
+            if (ts.isTypeNode(node)) {
+                return false;
+            }
+            if (ts.isIdentifier(node)) {
+                let referencedSymbol: ts.Symbol;
+                if (ts.isShorthandPropertyAssignment(node.parent) && node.parent.name === node) {
+                    referencedSymbol = checker.getShorthandAssignmentValueSymbol(node.parent);
+                } else if (ts.isExportSpecifier(node.parent) && !node.parent.parent.parent.moduleSpecifier) {
+                    referencedSymbol = checker.getExportSpecifierLocalTargetSymbol(node.parent);
+                } else {
+                    referencedSymbol = checker.getSymbolAtLocation(node);
+                }
+                return referencedSymbol === symbol;
+            }
+            return ts.forEachChild(node, visit) || false;
+        };
+        return ts.forEachChild(root, visit) || false;
+    }
+
+    // Get the expression written to by an assignment, compound assignment or ++/--,
+    // undefined for other expressions and destructuring assignments
+    public static getAssignmentTarget(node: ts.Expression): ts.Expression | undefined {
+        let target: ts.Expression;
+        if (ts.isBinaryExpression(node)
+            && node.operatorToken.kind >= ts.SyntaxKind.FirstAssignment
+            && node.operatorToken.kind <= ts.SyntaxKind.LastAssignment
+            && !this.isDestructuringAssignment(node)) {
+            target = node.left;
+        } else if ((ts.isPrefixUnaryExpression(node) || ts.isPostfixUnaryExpression(node))
+            && (node.operator === ts.SyntaxKind.PlusPlusToken || node.operator === ts.SyntaxKind.MinusMinusToken)) {
+            target = node.operand;
+        }
+        while (target && ts.isParenthesizedExpression(target)) {
+            target = target.expression;
+        }
+        return target;
+    }
+
+    // Whether evaluating the expression more than once is safe: literals, identifiers and accesses on them
+    public static isSideEffectFree(node: ts.Expression): boolean {
+        switch (node.kind) {
+            case ts.SyntaxKind.Identifier:
+            case ts.SyntaxKind.ThisKeyword:
+            case ts.SyntaxKind.StringLiteral:
+            case ts.SyntaxKind.NumericLiteral:
+            case ts.SyntaxKind.NoSubstitutionTemplateLiteral:
+            case ts.SyntaxKind.TrueKeyword:
+            case ts.SyntaxKind.FalseKeyword:
+            case ts.SyntaxKind.NullKeyword:
+                return true;
+            case ts.SyntaxKind.ParenthesizedExpression:
+                return this.isSideEffectFree((node as ts.ParenthesizedExpression).expression);
+            case ts.SyntaxKind.PropertyAccessExpression:
+                return this.isSideEffectFree((node as ts.PropertyAccessExpression).expression);
+            case ts.SyntaxKind.ElementAccessExpression:
+                const elementAccess = node as ts.ElementAccessExpression;
+                return this.isSideEffectFree(elementAccess.expression)
+                    && this.isSideEffectFree(elementAccess.argumentExpression);
+            default:
+                return false;
+        }
+    }
 
-            if (type && type.symbol && type.symbol.members) {
-                const field = type.symbol.members.get(name);
-                return field && (field.flags & ts.SymbolFlags.GetAccessor) !== 0;
+    // Whether an expression can be evaluated into a temporary before the statement containing it, or before the
+    // return of an arrow function body. This requires the expression to be evaluated exactly once by the statement,
+    // and everything the statement evaluates before it to be free of side effects.
+    public static canHoistExpression(node: ts.Expression): boolean {
+        let current: ts.Node = node;
+        while (current.parent) {
+            const parent = current.parent;
+            switch (parent.kind) {
+                case ts.SyntaxKind.ExpressionStatement:
+                case ts.SyntaxKind.ReturnStatement:
+                case ts.SyntaxKind.ThrowStatement:
+                    return true;
+                case ts.SyntaxKind.IfStatement:
+                    return (parent as ts.IfStatement).expression === current;
+                case ts.SyntaxKind.SwitchStatement:
+                    return (parent as ts.SwitchStatement).expression === current;
+                case ts.SyntaxKind.ArrowFunction:
+                    return (parent as ts.ArrowFunction).body === current;
+                case ts.SyntaxKind.VariableDeclaration:
+                    // Variable statements are split into one local per declaration, hoisting in between them
+                    const declarationList = parent.parent;
+                    return ts.isVariableDeclarationList(declarationList)
+                        && ts.isVariableStatement(declarationList.parent);
+                case ts.SyntaxKind.ConditionalExpression:
+                    if ((parent as ts.ConditionalExpression).condition !== current) {
+                        return false;
+                    }
+                    break;
+                case ts.SyntaxKind.BinaryExpression:
+                    const binary = parent as ts.BinaryExpression;
+                    const operator = binary.operatorToken.kind;
+                    if ((operator === ts.SyntaxKind.AmpersandAmpersandToken || operator === ts.SyntaxKind.BarBarToken)
+                        && binary.left !== current) {
+                        return false;
+                    }
+                    break;
+                case ts.SyntaxKind.ParenthesizedExpression:
+                case ts.SyntaxKind.CallExpression:
+                case ts.SyntaxKind.NewExpression:
+                case ts.SyntaxKind.PropertyAccessExpression:
+                case ts.SyntaxKind.ElementAccessExpression:
+                case ts.SyntaxKind.ArrayLiteralExpression:
+                case ts.SyntaxKind.ObjectLiteralExpression:
+                case ts.SyntaxKind.PropertyAssignment:
+                case ts.SyntaxKind.SpreadElement:
+                case ts.SyntaxKind.SpreadAssignment:
+                case ts.SyntaxKind.PrefixUnaryExpression:
+                case ts.SyntaxKind.AsExpression:
+                case ts.SyntaxKind.TypeAssertionExpression:
+                case ts.SyntaxKind.NonNullExpression:
+                case ts.SyntaxKind.TemplateExpression:
+                case ts.SyntaxKind.TemplateSpan:
+                    break;
+                default:
+                    return false;
+            }
+
+            // Operands evaluated before the expression must not be affected by evaluating it earlier
+            let isBefore = true;
+            let isSafe = true;
+            ts.forEachChild(parent, child => {
+                if (child === current) {
+                    isBefore = false;
+                } else if (isBefore && !this.isSideEffectFreeOperand(child)) {
+                    isSafe = false;
+                }
+            });
+            if (!isSafe) {
+                return false;
             }
+            current = parent;
         }
         return false;
     }
 
+    // Whether evaluating a child node of an expression is free of side effects,
+    // children that are not evaluated such as types, tokens and methods are
+    public static isSideEffectFreeOperand(node: ts.Node): boolean {
+        if (ts.isPropertyAssignment(node)) {
+            return this.isSideEffectFreeOperand(node.name) && this.isSideEffectFree(node.initializer);
+        }
+        if (ts.isSpreadAssignment(node) || ts.isComputedPropertyName(node) || ts.isTemplateSpan(node)) {
+            return this.isSideEffectFree(node.expression);
+        }
+        if (ts.isToken(node) || ts.isTypeNode(node) || ts.isShorthandPropertyAssignment(node)
+            || ts.isMethodDeclaration(node) || ts.isAccessor(node)) {
+            return true;
+        }
+        return this.isSideEffectFree(node as ts.Expression);
+    }
+
+    // Expressions written to inside root by assignments, ++/--, destructuring and for...in/of heads,
+    // shorthand properties in destructuring assignments are returned as the property itself
+    public static getAssignmentTargets(root: ts.Node): ts.Node[] {
+        const targets: ts.Node[] = [];
+        const addTarget = (target: ts.Node) => {
+            if (ts.isParenthesizedExpression(target) || ts.isSpreadElement(target)
+                || ts.isSpreadAssignment(target)) {
+                addTarget(target.expression);
+            } else if (ts.isBinaryExpression(target) && target.operatorToken.kind === ts.SyntaxKind.EqualsToken) {
+                addTarget(target.left);
+            } else if (ts.isArrayLiteralExpression(target)) {
+                target.elements.forEach(addTarget);
+            } else if (ts.isObjectLiteralExpression(target)) {
+                target.properties.forEach(addTarget);
+            } else if (ts.isPropertyAssignment(target)) {
+                addTarget(target.initializer);
+            } else {
+                targets.push(target);
+            }
+        };
+        const visit = (node: ts.Node) => {
+            if (ts.isBinaryExpression(node)
+                && node.operatorToken.kind >= ts.SyntaxKind.FirstAssignment
+                && node.operatorToken.kind <= ts.SyntaxKind.LastAssignment) {
+                addTarget(node.left);
+            } else if ((ts.isPrefixUnaryExpression(node) || ts.isPostfixUnaryExpression(node))
+                && (node.operator === ts.SyntaxKind.PlusPlusToken || node.operator === ts.SyntaxKind.MinusMinusToken)) {
+                addTarget(node.operand);
+            } else if ((ts.isForInStatement(node) || ts.isForOfStatement(node))
+                && !ts.isVariableDeclarationList(node.initializer)) {
+                addTarget(node.initializer);
+            } else if (ts.isDeleteExpression(node)) {
+                addTarget(node.expression);
+            }
+            ts.forEachChild(node, visit);
+        };
+        visit(root);
+        return targets;
+    }
+
+    public static isAssignedIn(symbol: ts.Symbol, root: ts.Node, checker: ts.TypeChecker): boolean {
+        return this.getAssignmentTargets(root).some(target => {
+            if (ts.isShorthandPropertyAssignment(target)) {
+                return checker.getShorthandAssignmentValueSymbol(target) === symbol;
+            }
+            return ts.isIdentifier(target) && checker.getSymbolAtLocation(target) === symbol;
+        });
+    }
+
+    // The first yield or await in root that suspends the function containing root, nested functions are skipped
+    public static findSuspension(root: ts.Node): ts.YieldExpression | ts.AwaitExpression | undefined {
+        const visit = (node: ts.Node): ts.YieldExpression | ts.AwaitExpression | undefined => {
+            if (ts.isYieldExpression(node) || ts.isAwaitExpression(node)) {
+                return node;
+            }
+            if (ts.isFunctionLike(node)) {
+                return undefined;
+            }
+            return ts.forEachChild(node, visit);
+        };
+        return visit(root);
+    }
+
+    // Whether root calls code that could have arbitrary side effects, or suspends with yield/await
+    public static containsCall(root: ts.Node): boolean {
+        const visit = (node: ts.Node): boolean => {
+            if (ts.isCallExpression(node)
+                || ts.isNewExpression(node)
+                || ts.isTaggedTemplateExpression(node)
+                || ts.isYieldExpression(node)
+                || ts.isAwaitExpression(node)) {
+                return true;
+            }
+            return ts.forEachChild(node, visit) || false;
+        };
+        return visit(root);
+    }
+
+    // Whether a function inside root references the symbol
+    public static isCapturedIn(symbol: ts.Symbol, root: ts.Node, checker: ts.TypeChecker): boolean {
+        const visit = (node: ts.Node): boolean => {
+            if (ts.isFunctionLike(node)) {
+                return this.isReferencedAsValue(symbol, node, checker);
+            }
+            return ts.forEachChild(node, visit) || false;
+        };
+        return visit(root);
+    }
+
+    // Whether expression always evaluates to an integer: integer literals, array and string lengths, constants
+    // initialized with those and their sums, differences and products
+    public static isIntegerExpression(expression: ts.Expression, checker: ts.TypeChecker): boolean {
+        if (ts.isNumericLiteral(expression)) {
+            return Number(expression.text) % 1 === 0;
+        } else if (ts.isParenthesizedExpression(expression)) {
+            return this.isIntegerExpression(expression.expression, checker);
+        } else if (ts.isPrefixUnaryExpression(expression)
+            && (expression.operator === ts.SyntaxKind.MinusToken || expression.operator === ts.SyntaxKind.PlusToken)) {
+            return this.isIntegerExpression(expression.operand, checker);
+        } else if (ts.isBinaryExpression(expression)) {
+            const operators = [ts.SyntaxKind.PlusToken, ts.SyntaxKind.MinusToken, ts.SyntaxKind.AsteriskToken];
+            return operators.indexOf(expression.operatorToken.kind) !== -1
+                && this.isIntegerExpression(expression.left, checker)
+                && this.isIntegerExpression(expression.right, checker);
+        } else if (ts.isPropertyAccessExpression(expression) && expression.name.escapedText === "length") {
+            const ownerType = checker.getTypeAtLocation(expression.expression);
+            return this.isArrayType(ownerType, checker) || this.isStringType(ownerType);
+        } else if (ts.isIdentifier(expression)) {
+            const symbol = checker.getSymbolAtLocation(expression);
+            const declaration = symbol && symbol.valueDeclaration;
+            return declaration !== undefined && ts.isVariableDeclaration(declaration)
+                && (ts.getCombinedNodeFlags(declaration) & ts.NodeFlags.Const) !== 0
+                && declaration.initializer !== undefined
+                && this.isIntegerExpression(declaration.initializer, checker);
+        }
+        return false;
+    }
+
+    // Whether expression has the same value in every iteration of a loop with the given body: it only does
+    // arithmetic on literals, constants, and variables and properties the body can not change
+    public static isLoopInvariant(expression: ts.Expression, body: ts.Node, checker: ts.TypeChecker): boolean {
+        const bodyHasCalls = this.containsCall(body);
+        const targets = this.getAssignmentTargets(body);
+        const check = (node: ts.Expression): boolean => {
+            if (ts.isNumericLiteral(node) || node.kind === ts.SyntaxKind.ThisKeyword) {
+                return true;
+            } else if (ts.isParenthesizedExpression(node)) {
+                return check(node.expression);
+            } else if (ts.isPrefixUnaryExpression(node) && node.operator === ts.SyntaxKind.MinusToken) {
+                return check(node.operand);
+            } else if (ts.isBinaryExpression(node)) {
+                const arithmetic = [
+                    ts.SyntaxKind.PlusToken,
+                    ts.SyntaxKind.MinusToken,
+                    ts.SyntaxKind.AsteriskToken,
+                    ts.SyntaxKind.SlashToken,
+                    ts.SyntaxKind.PercentToken,
+                ];
+                return arithmetic.indexOf(node.operatorToken.kind) !== -1 && check(node.left) && check(node.right);
+            } else if (ts.isIdentifier(node)) {
+                const symbol = checker.getSymbolAtLocation(node);
+                if (!symbol) {
+                    return false;
+                }
+                const declaration = symbol.valueDeclaration;
+                if (declaration && ts.isVariableDeclaration(declaration)
+                    && (ts.getCombinedNodeFlags(declaration) & ts.NodeFlags.Const) !== 0) {
+                    return true;
+                }
+                return !bodyHasCalls && !this.isAssignedIn(symbol, body, checker);
+            } else if (ts.isPropertyAccessExpression(node)) {
+                const writesProperties = targets.some(target =>
+                    ts.isPropertyAccessExpression(target) || ts.isElementAccessExpression(target));
+                return !bodyHasCalls && !writesProperties && check(node.expression);
+            }
+            return false;
+        };
+        return check(expression);
+    }
+
+    // Check if a class declares or inherits any get or set accessors
+    public static hasAccessors(node: ts.ClassLikeDeclaration, extendsType: ts.Type | undefined,
+                               checker: ts.TypeChecker): boolean {
+        return node.members.some(member => ts.isAccessor(member))
+            || (extendsType !== undefined && checker.getPropertiesOfType(extendsType)
+                .some(symbol => (symbol.flags & ts.SymbolFlags.Accessor) !== 0));
+    }
+
+    public static hasGetAccessor(node: ts.Node, checker: ts.TypeChecker): boolean {
+        return this.hasAccessor(node, ts.SymbolFlags.GetAccessor, checker);
+    }
+
     public static hasSetAccessor(node: ts.Node, checker: ts.TypeChecker): boolean {
+        return this.hasAccessor(node, ts.SymbolFlags.SetAccessor, checker);
+    }
+
+    // Whether a property access refers to a class accessor, instance or static and possibly inherited
+    public static hasAccessor(node: ts.Node, accessorFlag: ts.SymbolFlags, checker: ts.TypeChecker): boolean {
         if (ts.isPropertyAccessExpression(node)) {
-            const name = node.name.escapedText;
-            const type = checker.getTypeAtLocation(node.expression);
+            const symbol = checker.getSymbolAtLocation(node.name);
 
-            if (type && type.symbol && type.symbol.members) {
-                const field = type.symbol.members.get(name);
-                return field && (field.flags & ts.SymbolFlags.SetAccessor) !== 0;
-            }
+            // Object literal accessors are backed by a metatable and accessed like normal properties
+            return symbol !== undefined
+                && (symbol.flags & accessorFlag) !== 0
+                && symbol.declarations.every(declaration => ts.isClassLike(declaration.parent));
         }
         return false;
     }
 
+    // Check if the property is call, apply or bind of the Function interface
+    public static isFunctionPrototypeMember(node: ts.PropertyAccessExpression, checker: ts.TypeChecker): boolean {
+        const symbol = checker.getSymbolAtLocation(node.name);
+        return ["call", "apply", "bind"].indexOf(node.name.text) !== -1
+            && symbol !== undefined
+            && symbol.declarations !== undefined
+            && symbol.declarations.some(declaration => ts.isInterfaceDeclaration(declaration.parent)
+                && declaration.parent.name.escapedText === "Function");
+    }
+
+    // Functions of this type take self as first parameter
+    public static hasSelfParameter(type: ts.Type, checker: ts.TypeChecker): boolean {
+        return type.getCallSignatures().some(signature => this.isSelfSignature(signature, checker));
+    }
+
+    public static isSelfSignature(signature: ts.Signature, checker: ts.TypeChecker): boolean {
+        const declaration = signature.getDeclaration();
+        return declaration !== undefined && this.hasSelfContext(declaration, checker);
+    }
+
+    // Decide if a function takes self as first parameter, a declared this parameter decides first: `this: void`
+    // means no self and any other this type means self. Otherwise !NoSelf on the declaration or its containers
+    // and !NoSelfInFile on its file remove self, and only non-static methods take self by default.
+    public static hasSelfContext(declaration: ts.SignatureDeclaration, checker: ts.TypeChecker): boolean {
+        const thisParameter = declaration.parameters.filter(param =>
+            ts.isIdentifier(param.name) && param.name.originalKeywordKind === ts.SyntaxKind.ThisKeyword)[0];
+        if (thisParameter) {
+            return !thisParameter.type || thisParameter.type.kind !== ts.SyntaxKind.VoidKeyword;
+        }
+
+        if (this.hasDeclarationDecorator(declaration, checker, "!NoSelf")
+            || this.hasFileDecorator(declaration.getSourceFile(), "!NoSelfInFile")) {
+            return false;
+        }
+
+        return (ts.isMethodDeclaration(declaration) || ts.isMethodSignature(declaration))
+            && !this.isStatic(declaration);
+    }
+
+    // Method referenced as a value, instead of being called, accessed or assigned to
+    public static isMethodReference(node: ts.PropertyAccessExpression, checker: ts.TypeChecker): boolean {
+        const parent = node.parent;
+        if (!parent
+            || node.expression.kind === ts.SyntaxKind.SuperKeyword
+            || (ts.isCallExpression(parent) && parent.expression === node)
+            || (ts.isNewExpression(parent) && parent.expression === node)
+            || ts.isPropertyAccessExpression(parent)
+            || (ts.isElementAccessExpression(parent) && parent.expression === node)
+            || (ts.isBinaryExpression(parent)
+                && parent.left === node
+                && parent.operatorToken.kind >= ts.SyntaxKind.FirstAssignment
+                && parent.operatorToken.kind <= ts.SyntaxKind.LastAssignment)) {
+            return false;
+        }
+        return this.hasSelfParameter(checker.getTypeAtLocation(node), checker);
+    }
+
+    // Check if an expression flows into a function-typed slot that is called without self,
+    // undefined if the slot mixes functions called with and without self
+    public static isPassedToNoSelfSlot(node: ts.Expression, checker: ts.TypeChecker): boolean | undefined {
+        const contextualType = checker.getContextualType(node);
+        if (!contextualType) {
+            return false;
+        }
+
+        const types = contextualType.flags & ts.TypeFlags.Union
+            ? (contextualType as ts.UnionType).types
+            : [contextualType];
+        let calledWithSelf = false;
+        let calledWithoutSelf = false;
+        for (const type of types) {
+            const signatures = type.getCallSignatures();
+            if ((type.flags & ts.TypeFlags.Any) || ((type.flags & ts.TypeFlags.Object) && signatures.length === 0)) {
+                // any, Function and other object types are no concrete function type, values pass as they are
+                return false;
+            }
+            signatures.forEach(signature => {
+                if (this.isSelfSignature(signature, checker)) {
+                    calledWithSelf = true;
+                } else {
+                    calledWithoutSelf = true;
+                }
+            });
+        }
+        return calledWithSelf && calledWithoutSelf ? undefined : calledWithoutSelf;
+    }
+
+    // Check if a function taking self is passed where functions are called without self
+    public static isSelfFunctionPassedToNoSelfSlot(node: ts.Expression, checker: ts.TypeChecker): boolean {
+        const signatures = checker.getTypeAtLocation(node).getCallSignatures();
+        return signatures.length > 0
+            && signatures.every(signature => this.isSelfSignature(signature, checker))
+            && this.isPassedToNoSelfSlot(node, checker) === true;
+    }
+
+    // Whether a property access refers to a static member of a class
+    public static isStaticMember(node: ts.PropertyAccessExpression, checker: ts.TypeChecker): boolean {
+        const symbol = checker.getSymbolAtLocation(node.name);
+        return symbol !== undefined
+            && symbol.declarations !== undefined
+            && symbol.declarations.some(declaration => this.isStatic(declaration));
+    }
+
+    public static isStatic(node: ts.Node): boolean {
+        return node.modifiers !== undefined
+            && node.modifiers.some(modifier => modifier.kind === ts.SyntaxKind.StaticKeyword);
+    }
+
+    // Whether this refers to the class itself: inside static methods, accessors and property initializers
+    public static isInStaticContext(node: ts.Node): boolean {
+        const container = this.findFirstNodeAbove(node, (n): n is ts.Node =>
+            (ts.isFunctionLike(n) && !ts.isArrowFunction(n)) || ts.isPropertyDeclaration(n) || ts.isClassLike(n));
+        return container !== null && !ts.isClassLike(container) && this.isStatic(container);
+    }
+
     public static isBinaryAssignmentToken(token: ts.SyntaxKind): [boolean, ts.BinaryOperator] {
         switch (token) {
             case ts.SyntaxKind.BarEqualsToken:
@@ -17,6 +17,42 @@ export class TranspileError extends Error {
     }
 }
 
+// Consecutive switch clauses sharing the statements of the last one, i.e. case 1: case 2: statements
+export interface SwitchClauseGroup {
+    cases: ts.CaseClause[];
+    isDefault: boolean;
+    statements: ts.Statement[];
+}
+
+// A statement break can jump out of: a loop or a labeled statement
+export interface Breakable {
+    node: ts.Statement;
+    labels: string[];
+    // Whether the statement is lowered to a Lua loop, so a Lua break exits it
+    isLuaLoop: boolean;
+    // Id of the loop, used for its continue label
+    loopId?: number;
+    // Label placed after the statement for goto based breaks
+    breakLabel?: string;
+    // Flag set before breaking out of nested Lua loops on targets without goto
+    breakFlag?: string;
+    // Enclosing statements that are being broken out of from inside this statement
+    brokenOutOf: Breakable[];
+    // Local holding the iterator of a for...of loop, closed when a jump leaves the loop early
+    iterator?: string;
+}
+
+// Expressions writing to an assignment target
+export type AssignmentExpression = ts.BinaryExpression | ts.PrefixUnaryExpression | ts.PostfixUnaryExpression;
+
+// A try statement being transpiled, with the returns and jumps propagated out of its try and catch functions
+interface TryContext {
+    node: ts.TryStatement;
+    hasReturn: boolean;
+    // Distinct break and continue statements leaving the try statement, their index + 1 is their result code
+    jumps: Array<{ node: ts.BreakStatement | ts.ContinueStatement; target: Breakable }>;
+}
+
 export enum LuaTarget {
     Lua51 = "5.1",
     Lua52 = "5.2",
@@ -31,12 +67,17 @@ export abstract class LuaTranspiler {
     public checker: ts.TypeChecker;
     public options: ts.CompilerOptions;
     public genVarCounter: number;
-    public transpilingSwitch: number;
     public namespace: string[];
     public importCount: number;
     public isModule: boolean;
     public sourceFile: ts.SourceFile;
     public loopStack: number[];
+    public breakableStack: Breakable[];
+    public tryStack: TryContext[];
+    // Lua expressions used in place of nodes, i.e. the temporaries caching the receiver and key of an assignment
+    public substitutions: Array<{ node: ts.Node; lua: string }>;
+    // Statements hoisted out of the expressions of the statement being transpiled, placed before it
+    public preludes: string[];
     public classStack: string[];
 
     constructor(checker: ts.TypeChecker, options: ts.CompilerOptions, sourceFile: ts.SourceFile) {
@@ -44,12 +85,15 @@ export abstract class LuaTranspiler {
         this.checker = checker;
         this.options = options;
         this.genVarCounter = 0;
-        this.transpilingSwitch = 0;
         this.namespace = [];
         this.importCount = 0;
         this.sourceFile = sourceFile;
         this.isModule = tsHelper.isFileModule(sourceFile);
         this.loopStack = [];
+        this.breakableStack = [];
+        this.tryStack = [];
+        this.substitutions = [];
+        this.preludes = [];
         this.classStack = [];
     }
 
@@ -76,7 +120,10 @@ export abstract class LuaTranspiler {
             node.modifiers && this.isModule &&
             (ts.getCombinedModifierFlags(node) & ts.ModifierFlags.Export)
            ) {
-            if (dummy) {
+            if (ts.getCombinedModifierFlags(node) & ts.ModifierFlags.Default) {
+                // Default exports are always exported under the default key
+                result = this.indent + `exports.default = ${dummy ? "{}" : name}\n`;
+            } else if (dummy) {
                 result = this.indent + `exports.${this.definitionName(name)} = {}\n`;
             } else {
                 result = this.indent + `exports.${this.definitionName(name)} = ${name}\n`;
@@ -128,6 +175,8 @@ export abstract class LuaTranspiler {
         if (!this.options.dontRequireLuaLib) {
             // require helper functions
             result += `require("typescript_lualib")\n`;
+            // Promise jobs queued by top-level code run once the outermost file is done
+            result += "TS_beginFile()\n";
         }
         if (this.isModule) {
             // Shadow exports if it already exists
@@ -135,8 +184,20 @@ export abstract class LuaTranspiler {
         }
 
         // Transpile content statements
-        this.sourceFile.statements.forEach(s => result += this.transpileNode(s));
+        // A top-level return has to stay the last statement of the chunk, the file ends before it
+        const statements = this.sourceFile.statements;
+        const lastStatement = statements[statements.length - 1];
+        const trailingReturn = lastStatement && ts.isReturnStatement(lastStatement) ? lastStatement : undefined;
+        statements.forEach(statement => {
+            if (statement === trailingReturn && !this.options.dontRequireLuaLib) {
+                result += "TS_endFile()\n";
+            }
+            result += this.transpileNode(statement);
+        });
 
+        if (!trailingReturn && !this.options.dontRequireLuaLib) {
+            result += "TS_endFile()\n";
+        }
         if (this.isModule) {
             result += "return exports\n";
         }
@@ -148,8 +209,22 @@ export abstract class LuaTranspiler {
         return block.statements.map(statement => this.transpileNode(statement)).join("");
     }
 
-    // Transpile a node of unknown kind.
+    public transpileIndentedBlock(block: ts.Block): string {
+        this.pushIndent();
+        const result = this.transpileBlock(block);
+        this.popIndent();
+        return result;
+    }
+
+    // Transpile a node, statements hoisted out of its expressions are placed before it
     public transpileNode(node: ts.Node): string {
+        const preludeCount = this.preludes.length;
+        const result = this.transpileNodeKind(node);
+        return this.preludes.splice(preludeCount).join("") + result;
+    }
+
+    // Transpile a node of unknown kind.
+    public transpileNodeKind(node: ts.Node): string {
         // Ignore declarations
         if (node.modifiers && node.modifiers.some(modifier => modifier.kind === ts.SyntaxKind.DeclareKeyword)) {
             return "";
@@ -158,6 +233,10 @@ export abstract class LuaTranspiler {
         switch (node.kind) {
             case ts.SyntaxKind.ImportDeclaration:
                 return this.transpileImport(node as ts.ImportDeclaration);
+            case ts.SyntaxKind.ExportDeclaration:
+                return this.transpileExportDeclaration(node as ts.ExportDeclaration);
+            case ts.SyntaxKind.ExportAssignment:
+                return this.transpileExportAssignment(node as ts.ExportAssignment);
             case ts.SyntaxKind.ClassDeclaration:
                 return this.transpileClass(node as ts.ClassDeclaration);
             case ts.SyntaxKind.ModuleDeclaration:
@@ -172,26 +251,25 @@ export abstract class LuaTranspiler {
                 return this.indent +
                        this.transpileVariableStatement(node as ts.VariableStatement) + "\n";
             case ts.SyntaxKind.ExpressionStatement:
-                return this.indent +
-                       this.transpileExpression((node as ts.ExpressionStatement).expression) + "\n";
+                return this.transpileExpressionStatement((node as ts.ExpressionStatement).expression);
             case ts.SyntaxKind.ReturnStatement:
                 return this.indent + this.transpileReturn(node as ts.ReturnStatement) + "\n";
             case ts.SyntaxKind.IfStatement:
                 return this.transpileIf(node as ts.IfStatement);
             case ts.SyntaxKind.WhileStatement:
-                return this.transpileWhile(node as ts.WhileStatement);
             case ts.SyntaxKind.DoStatement:
-                return this.transpileDoStatement(node as ts.DoStatement);
             case ts.SyntaxKind.ForStatement:
-                return this.transpileFor(node as ts.ForStatement);
             case ts.SyntaxKind.ForOfStatement:
-                return this.transpileForOf(node as ts.ForOfStatement);
             case ts.SyntaxKind.ForInStatement:
-                return this.transpileForIn(node as ts.ForInStatement);
+                return this.transpileIterationStatement(node as ts.IterationStatement);
+            case ts.SyntaxKind.LabeledStatement:
+                return this.transpileLabeledStatement(node as ts.LabeledStatement);
+            case ts.SyntaxKind.Block:
+                return this.indent + "do\n" + this.transpileIndentedBlock(node as ts.Block) + this.indent + "end\n";
             case ts.SyntaxKind.SwitchStatement:
                 return this.transpileSwitch(node as ts.SwitchStatement);
             case ts.SyntaxKind.BreakStatement:
-                return this.transpileBreak();
+                return this.transpileBreak(node as ts.BreakStatement);
             case ts.SyntaxKind.TryStatement:
                 return this.transpileTry(node as ts.TryStatement);
             case ts.SyntaxKind.ThrowStatement:
@@ -212,21 +290,40 @@ export abstract class LuaTranspiler {
         const importPath = this.transpileExpression(node.moduleSpecifier);
         const importPathWithoutQuotes = importPath.replace(new RegExp("\"", "g"), "");
 
-        if (!node.importClause || !node.importClause.namedBindings) {
-            throw new TranspileError(
-                "Default Imports are not supported, please use named imports instead!",
-                node
-            );
+        if (!node.importClause) {
+            // Side-effect only import: import "./foo"
+            return this.indent + `require(${this.getImportPath(importPathWithoutQuotes)})\n`;
         }
 
         const imports = node.importClause.namedBindings;
 
+        // Elide imports that are never used as a value (type-only imports)
+        const defaultImport = node.importClause.name && this.isValueImport(node.importClause.name)
+            ? node.importClause.name
+            : undefined;
+
+        if (!imports) {
+            if (!defaultImport) {
+                return "";
+            }
+            // Default import only: import Foo from "./foo"
+            const resolvedImportPath = this.getImportPath(importPathWithoutQuotes);
+            return `local ${defaultImport.escapedText} = require(${resolvedImportPath}).default\n`;
+        }
+
         if (ts.isNamedImports(imports)) {
+            const elements = imports.elements.filter(element => this.isValueImport(element.name));
+            if (elements.length === 0 && !defaultImport) {
+                return "";
+            }
             const fileImportTable = path.basename(importPathWithoutQuotes) + this.importCount;
             const resolvedImportPath = this.getImportPath(importPathWithoutQuotes);
             let result = `local ${fileImportTable} = require(${resolvedImportPath})\n`;
             this.importCount++;
-            imports.elements.forEach(element => {
+            if (defaultImport) {
+                result += `local ${defaultImport.escapedText} = ${fileImportTable}.default\n`;
+            }
+            elements.forEach(element => {
                 const nameText = element.name.escapedText;
                 if (element.propertyName) {
                     result +=
@@ -238,13 +335,76 @@ export abstract class LuaTranspiler {
             });
             return result;
         } else if (ts.isNamespaceImport(imports)) {
+            const namespaceUsed = this.isValueImport(imports.name);
+            if (!namespaceUsed && !defaultImport) {
+                return "";
+            }
             const resolvedImportPath = this.getImportPath(importPathWithoutQuotes);
-            return `local ${imports.name.escapedText} = require(${resolvedImportPath})\n`;
+            if (!namespaceUsed) {
+                return `local ${defaultImport.escapedText} = require(${resolvedImportPath}).default\n`;
+            }
+            let result = `local ${imports.name.escapedText} = require(${resolvedImportPath})\n`;
+            if (defaultImport) {
+                result += `local ${defaultImport.escapedText} = ${imports.name.escapedText}.default\n`;
+            }
+            return result;
         } else {
             throw new TranspileError("Unsupported import type.", node);
         }
     }
 
+    // Check if an imported name is used as a value anywhere in this file
+    public isValueImport(name: ts.Identifier): boolean {
+        const symbol = this.checker.getSymbolAtLocation(name);
+        return symbol !== undefined && tsHelper.isReferencedAsValue(symbol, this.sourceFile, this.checker);
+    }
+
+    // Transpile export lists and re-exports: export { a, b as c }, export { d } from "x", export * from "x"
+    public transpileExportDeclaration(node: ts.ExportDeclaration): string {
+        let exportSource = "";
+        let result = "";
+
+        if (node.moduleSpecifier) {
+            const importPath = this.transpileExpression(node.moduleSpecifier);
+            const importPathWithoutQuotes = importPath.replace(new RegExp("\"", "g"), "");
+            const resolvedImportPath = this.getImportPath(importPathWithoutQuotes);
+            exportSource = path.basename(importPathWithoutQuotes) + this.importCount;
+            this.importCount++;
+            result += this.indent + `local ${exportSource} = require(${resolvedImportPath})\n`;
+        }
+
+        if (!node.exportClause) {
+            // export * from "x": copy all members except default, without overwriting existing exports
+            result += this.indent + `for ____key, ____value in pairs(${exportSource}) do\n`;
+            result += this.indent + `    if ____key ~= "default" and exports[____key] == nil then `
+                                  + `exports[____key] = ____value end\n`;
+            result += this.indent + `end\n`;
+            return result;
+        }
+
+        node.exportClause.elements.forEach(element => {
+            const exportName = element.name.escapedText;
+            const localName = element.propertyName ? element.propertyName.escapedText : exportName;
+            if (node.moduleSpecifier) {
+                result += this.indent + `exports.${exportName} = ${exportSource}.${localName}\n`;
+            } else {
+                // Don't export types, they do not exist at runtime
+                const symbol = this.checker.getExportSpecifierLocalTargetSymbol(element);
+                if (symbol && (symbol.flags & (ts.SymbolFlags.Value | ts.SymbolFlags.Alias)) === 0) {
+                    return;
+                }
+                result += this.indent + `exports.${exportName} = ${localName}\n`;
+            }
+        });
+        return result;
+    }
+
+    // Transpile export default <expression> and export = <expression>
+    public transpileExportAssignment(node: ts.ExportAssignment): string {
+        const value = this.transpileExpression(node.expression);
+        return this.indent + `exports.default = ${value}\n`;
+    }
+
     public transpileNamespace(node: ts.ModuleDeclaration): string {
         // If phantom namespace just transpile the body as normal
         if (tsHelper.isPhantom(this.checker.getTypeAtLocation(node), this.checker) && node.body) {
@@ -319,15 +479,79 @@ export abstract class LuaTranspiler {
         return result;
     }
 
-    public transpileBreak(): string {
-        if (this.transpilingSwitch > 0) {
-            return "";
-        } else {
+    // Transpile a break, from is the node the break is emitted at, this is the try statement
+    // when re-emitting a break propagated out of a try or catch block
+    public transpileBreak(node: ts.BreakStatement, from: ts.Node = node): string {
+        const target = this.findBreakable(node.label);
+        if (!target) {
             return this.indent + "break\n";
         }
+        const tryStatement = this.findJumpedOutTry(from, target);
+        if (tryStatement) {
+            return this.transpileIteratorCloses(from, tryStatement, false)
+                + this.transpileTryJump(tryStatement, node, target);
+        }
+
+        // A Lua break only exits the innermost Lua loop, break out of the others with a flag
+        const closes = this.transpileIteratorCloses(from, target.node, true);
+        const luaLoops = this.breakableStack.filter(breakable => breakable.isLuaLoop);
+        if (!target.isLuaLoop || luaLoops[luaLoops.length - 1] !== target) {
+            return closes + this.transpileBreakOutOf(target, node);
+        }
+        return closes + this.indent + "break\n";
+    }
+
+    // Iterators of the for...of loops a jump from a node leaves, innermost first.
+    // Only loops inside the boundary are left, the boundary itself only when it is included.
+    public getLeftIterators(from: ts.Node, boundary: ts.Node, includeBoundary: boolean): string[] {
+        return this.breakableStack
+            .filter(breakable => breakable.iterator && tsHelper.isInside(from, breakable.node)
+                && (breakable.node === boundary ? includeBoundary : tsHelper.isInside(breakable.node, boundary)))
+            .map(breakable => breakable.iterator)
+            .reverse();
+    }
+
+    // Close the iterators of the for...of loops a break or continue leaves
+    public transpileIteratorCloses(from: ts.Node, boundary: ts.Node, includeBoundary: boolean): string {
+        return this.getLeftIterators(from, boundary, includeBoundary)
+            .map(iterator => this.indent + `TS_iteratorClose(${iterator})\n`)
+            .join("");
+    }
+
+    // Return values from a node, closing the iterators of the for...of loops the return leaves after
+    // the values are evaluated. The boundary is the enclosing try statement or function.
+    public transpileReturnStatement(from: ts.Node, boundary: ts.Node, values: string): string {
+        const iterators = this.getLeftIterators(from, boundary, false);
+        if (iterators.length > 0) {
+            const closed = values ? `{${iterators.join(", ")}}, ${values}` : `{${iterators.join(", ")}}`;
+            return `return TS_closeIterators(${closed})`;
+        }
+        return values ? `return ${values}` : "return";
+    }
+
+    // Break out of a statement that is not the innermost Lua loop
+    public transpileBreakOutOf(target: Breakable, node: ts.BreakStatement): string {
+        if (!target.breakFlag) {
+            target.breakFlag = `____break${this.genVarCounter}`;
+            this.genVarCounter++;
+        }
+        const targetIndex = this.breakableStack.indexOf(target);
+        this.breakableStack.slice(targetIndex + 1).forEach(breakable => {
+            if (breakable.brokenOutOf.indexOf(target) === -1) {
+                breakable.brokenOutOf.push(target);
+            }
+        });
+        return this.indent + `${target.breakFlag} = true\n` + this.indent + "break\n";
     }
 
-    public transpileContinue(node: ts.ContinueStatement): string {
+    public transpileContinue(node: ts.ContinueStatement, from: ts.Node = node): string {
+        if (node.label) {
+            throw new TranspileError(
+                `Unsupported continue statement, can not continue label '${node.label.text}', ` +
+                `continue is not supported in Lua ${this.options.luaTarget}.`,
+                node
+            );
+        }
         throw new TranspileError(
             `Unsupported continue statement, ` +
             `continue is not supported in Lua ${this.options.luaTarget}.`,
@@ -335,6 +559,120 @@ export abstract class LuaTranspiler {
         );
     }
 
+    // Find the try statement a jump to the target leaves through its try or catch block
+    public findJumpedOutTry(from: ts.Node, target: Breakable): ts.TryStatement | undefined {
+        const tryStatement = tsHelper.findEnclosingTry(from);
+        if (tryStatement && tsHelper.isInside(tryStatement, target.node)) {
+            return tryStatement;
+        }
+        return undefined;
+    }
+
+    // Return the result code of a break or continue out of a try or catch function
+    public transpileTryJump(tryStatement: ts.TryStatement,
+                            node: ts.BreakStatement | ts.ContinueStatement,
+                            target: Breakable): string {
+        const context = this.getTryContext(tryStatement);
+        let index = context.jumps
+            .map(jump => jump.node.kind === node.kind && jump.target === target)
+            .indexOf(true);
+        if (index === -1) {
+            index = context.jumps.push({ node, target }) - 1;
+        }
+        return this.indent + `return ${index + 1}\n`;
+    }
+
+    public getTryContext(tryStatement: ts.TryStatement): TryContext {
+        return this.tryStack.filter(context => context.node === tryStatement)[0];
+    }
+
+    // Find the statement targeted by a break or continue,
+    // without label this is the innermost loop, or for break also the innermost switch
+    public findBreakable(label: ts.Identifier | undefined, isContinue = false): Breakable | undefined {
+        for (let i = this.breakableStack.length - 1; i >= 0; i--) {
+            const breakable = this.breakableStack[i];
+            if (label) {
+                if (breakable.labels.indexOf(label.text) !== -1) {
+                    return breakable;
+                }
+            } else if (tsHelper.isIterationStatement(breakable.node)
+                || (!isContinue && ts.isSwitchStatement(breakable.node))) {
+                return breakable;
+            }
+        }
+        return undefined;
+    }
+
+    public transpileIterationStatement(node: ts.IterationStatement, labels: string[] = []): string {
+        const breakable: Breakable = { node, labels, isLuaLoop: true, brokenOutOf: [] };
+        this.breakableStack.push(breakable);
+        let result: string;
+        switch (node.kind) {
+            case ts.SyntaxKind.WhileStatement:
+                result = this.transpileWhile(node as ts.WhileStatement);
+                break;
+            case ts.SyntaxKind.DoStatement:
+                result = this.transpileDoStatement(node as ts.DoStatement);
+                break;
+            case ts.SyntaxKind.ForStatement:
+                result = this.transpileFor(node as ts.ForStatement);
+                break;
+            case ts.SyntaxKind.ForOfStatement:
+                result = this.transpileForOf(node as ts.ForOfStatement);
+                break;
+            case ts.SyntaxKind.ForInStatement:
+                result = this.transpileForIn(node as ts.ForInStatement);
+                break;
+        }
+        this.breakableStack.pop();
+        return this.transpileBreakableEnd(breakable, result);
+    }
+
+    public transpileLabeledStatement(node: ts.LabeledStatement): string {
+        // Nested labels (a: b: statement) all refer to the same statement
+        const labels = [node.label.text];
+        let statement = node.statement;
+        while (ts.isLabeledStatement(statement)) {
+            labels.push(statement.label.text);
+            statement = statement.statement;
+        }
+
+        if (tsHelper.isIterationStatement(statement)) {
+            return this.transpileIterationStatement(statement, labels);
+        }
+        if (ts.isSwitchStatement(statement)) {
+            return this.transpileSwitch(statement, labels);
+        }
+        return this.transpileLabeledBlock(statement, labels);
+    }
+
+    public transpileLabeledBlock(statement: ts.Statement, labels: string[]): string {
+        // Without goto, breaking out of a labeled statement is a break out of a loop running once
+        const breakable: Breakable = { node: statement, labels, isLuaLoop: true, brokenOutOf: [] };
+        this.breakableStack.push(breakable);
+        let result = this.indent + "repeat\n";
+        this.pushIndent();
+        result += this.transpileStatement(statement);
+        this.popIndent();
+        result += this.indent + "until true\n";
+        this.breakableStack.pop();
+        return this.transpileBreakableEnd(breakable, result);
+    }
+
+    // Declare the break flag of a statement and check for breaks out of enclosing statements after it
+    public transpileBreakableEnd(breakable: Breakable, result: string): string {
+        if (breakable.breakFlag) {
+            result = this.indent + `local ${breakable.breakFlag} = false\n` + result;
+        }
+        if (breakable.breakLabel) {
+            result += this.indent + `::${breakable.breakLabel}::\n`;
+        }
+        breakable.brokenOutOf.forEach(target => {
+            result += this.indent + `if ${target.breakFlag} then break end\n`;
+        });
+        return result;
+    }
+
     public transpileIf(node: ts.IfStatement): string {
         const condition = this.transpileExpression(node.expression);
 
@@ -360,16 +698,28 @@ export abstract class LuaTranspiler {
             | ts.ForOfStatement
             | ts.ForInStatement
     ): string {
-        this.loopStack.push(this.genVarCounter);
+        const loopId = this.genVarCounter;
+        this.loopStack.push(loopId);
         this.genVarCounter++;
+        const breakable = this.breakableStack[this.breakableStack.length - 1];
+        if (breakable && breakable.node === node) {
+            breakable.loopId = loopId;
+        }
         let result = this.indent + "do\n";
         this.pushIndent();
         result += this.transpileStatement(node.statement);
         this.popIndent();
         result += this.indent + "end\n";
+        result += this.transpileContinueLabel(loopId);
+        this.loopStack.pop();
         return result;
     }
 
+    // Target of continue statements at the end of a loop body, only available with goto
+    public transpileContinueLabel(loopId: number): string {
+        return "";
+    }
+
     public transpileWhile(node: ts.WhileStatement): string {
         const condition = this.transpileExpression(node.expression);
 
@@ -393,39 +743,320 @@ export abstract class LuaTranspiler {
         return result;
     }
 
+    // Transpile an expression whose value is unused, comma expressions become one statement per operand
+    public transpileExpressionStatement(expression: ts.Expression): string {
+        while (ts.isParenthesizedExpression(expression)) {
+            expression = expression.expression;
+        }
+        if (ts.isBinaryExpression(expression) && expression.operatorToken.kind === ts.SyntaxKind.CommaToken) {
+            return this.transpileExpressionStatement(expression.left)
+                + this.transpileExpressionStatement(expression.right);
+        }
+        if (ts.isConditionalExpression(expression)) {
+            let result = this.indent + `if ${this.transpileExpression(expression.condition)} then\n`;
+            this.pushIndent();
+            result += this.transpileExpressionStatement(expression.whenTrue);
+            this.popIndent();
+            result += this.indent + "else\n";
+            this.pushIndent();
+            result += this.transpileExpressionStatement(expression.whenFalse);
+            this.popIndent();
+            return result + this.indent + "end\n";
+        }
+        const target = tsHelper.getAssignmentTarget(expression);
+        if (target) {
+            return this.transpileAssignmentStatement(expression as AssignmentExpression, target);
+        }
+        return this.indent + this.transpileExpression(expression) + "\n";
+    }
+
+    // Transpile an assignment, compound assignment or ++/-- whose value is unused
+    public transpileAssignmentStatement(node: AssignmentExpression, target: ts.Expression): string {
+        // A plain assignment evaluates its target once, others read it before writing
+        const isPlainAssignment = ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.EqualsToken;
+        const substitutionCount = this.substitutions.length;
+        const cache = isPlainAssignment ? "" : this.cacheAssignmentTarget(target);
+        const assignment = this.transpileAssign(target, this.transpileAssignedValue(node));
+        this.substitutions.splice(substitutionCount);
+
+        if (!cache) {
+            return this.indent + assignment + "\n";
+        }
+        return this.indent + "do\n"
+            + this.indent + "    " + cache + "\n"
+            + this.indent + "    " + assignment + "\n"
+            + this.indent + "end\n";
+    }
+
+    // Transpile an assignment, compound assignment or ++/-- used as a value to a function call
+    // doing the assignment and returning the assigned value, or the old value for postfix ++/--
+    public transpileAssignmentExpression(node: AssignmentExpression, target: ts.Expression): string {
+        const substitutionCount = this.substitutions.length;
+        const cache = this.cacheAssignmentTarget(target);
+        const valueName = `____value${this.genVarCounter}`;
+        this.genVarCounter++;
+
+        const statements = cache ? [cache] : [];
+        if (ts.isPostfixUnaryExpression(node)) {
+            statements.push(`local ${valueName} = ${this.transpileExpression(target)}`);
+            statements.push(this.transpileAssign(target, this.transpileAssignedValue(node, valueName)));
+        } else {
+            statements.push(`local ${valueName} = ${this.transpileAssignedValue(node)}`);
+            statements.push(this.transpileAssign(target, valueName));
+        }
+        statements.push(`return ${valueName}`);
+        this.substitutions.splice(substitutionCount);
+
+        return `(function() ${statements.join("; ")} end)()`;
+    }
+
+    // Cache the receiver and key of an assignment target in temporaries when evaluating them has side effects,
+    // returns the declaration of the temporaries, the target refers to them until the substitutions are removed
+    public cacheAssignmentTarget(target: ts.Expression): string {
+        let cached: ts.Expression[] = [];
+        if (ts.isPropertyAccessExpression(target) && !tsHelper.isSideEffectFree(target.expression)) {
+            cached = [target.expression];
+        } else if (ts.isElementAccessExpression(target) && !tsHelper.isSideEffectFree(target)) {
+            cached = [target.expression, target.argumentExpression];
+        }
+        if (cached.length === 0) {
+            return "";
+        }
+
+        const names = cached.map(() => `____cached${this.genVarCounter++}`);
+        const values = cached.map(expression => this.transpileExpression(expression));
+        cached.forEach((expression, index) => this.substitutions.push({ node: expression, lua: names[index] }));
+        return `local ${names.join(", ")} = ${values.join(", ")}`;
+    }
+
+    // The value assigned by an assignment: the right hand side, or the result of the compound operator or ++/--
+    // applied to the current value of the target
+    public transpileAssignedValue(node: AssignmentExpression, current?: string): string {
+        if (ts.isBinaryExpression(node)) {
+            const [isCompound, operator] = tsHelper.isBinaryAssignmentToken(node.operatorToken.kind);
+            if (!isCompound) {
+                this.validateFunctionContext(node.right);
+                return this.transpileExpression(node.right, true);
+            }
+            return this.transpileBinaryExpression(ts.createBinary(node.left, operator, node.right));
+        }
+        const operand = current || this.transpileExpression(node.operand, true);
+        return node.operator === ts.SyntaxKind.PlusPlusToken ? `${operand}+1` : `${operand}-1`;
+    }
+
+    // Write a value to an assignment target, through its set accessor if it has one
+    public transpileAssign(target: ts.Expression, value: string): string {
+        if (tsHelper.hasSetAccessor(target, this.checker)) {
+            return this.transpileSetAccessor(target as ts.PropertyAccessExpression, value);
+        }
+        return `${this.transpileExpression(target)} = ${value}`;
+    }
+
     public transpileFor(node: ts.ForStatement): string {
-        // Add header
+        const numericHeader = this.transpileNumericForHeader(node);
+        if (numericHeader) {
+            let numericFor = this.indent + numericHeader;
+            this.pushIndent();
+            numericFor += this.transpileLoopBody(node);
+            this.popIndent();
+            return numericFor + this.indent + "end\n";
+        }
+
+        const initializer = node.initializer;
+        const declarations: ReadonlyArray<ts.VariableDeclaration> =
+            initializer && ts.isVariableDeclarationList(initializer) ? initializer.declarations : [];
+        const isBlockScoped = declarations.length > 0 && (initializer.flags & ts.NodeFlags.BlockScoped) !== 0;
+
+        // let and const loop variables are scoped to the loop
         let result = "";
-        for (const variableDeclaration of (node.initializer as ts.VariableDeclarationList).declarations) {
+        if (isBlockScoped) {
+            result += this.indent + "do\n";
+            this.pushIndent();
+        }
+
+        // Add header
+        if (initializer && !ts.isVariableDeclarationList(initializer)) {
+            result += this.transpileExpressionStatement(initializer);
+        }
+        for (const variableDeclaration of declarations) {
             result += this.indent + this.transpileVariableDeclaration(variableDeclaration);
         }
-        result += this.indent + `while(${this.transpileExpression(node.condition)}) do\n`;
+        const condition = node.condition ? this.transpileExpression(node.condition) : "true";
+        result += this.indent + `while(${condition}) do\n`;
 
         // Add body
         this.pushIndent();
-        result += this.transpileLoopBody(node);
-        result += this.indent + this.transpileExpression(node.incrementor) + "\n";
+
+        // Closures in the body capture a fresh copy of let variables in every iteration,
+        // changes to the copy are carried over to the next iteration
+        const captured = !isBlockScoped ? [] : declarations
+            .map(declaration => tsHelper.getBindingIdentifiers(declaration.name))
+            .reduce((all, identifiers) => all.concat(identifiers), [])
+            .filter(identifier => tsHelper.isCapturedIn(
+                this.checker.getSymbolAtLocation(identifier), node, this.checker))
+            .map(identifier => identifier.escapedText as string);
+
+        if (captured.length > 0) {
+            const copies = captured.map(name => `____${name}${this.genVarCounter}`);
+            this.genVarCounter++;
+            result += this.indent + `local ${copies.join(",")}\n`;
+            result += this.indent + "do\n";
+            this.pushIndent();
+            result += this.indent + `local ${captured.join(",")} = ${captured.join(",")}\n`;
+            result += this.transpileLoopBody(node);
+            result += this.indent + `${copies.join(",")} = ${captured.join(",")}\n`;
+            this.popIndent();
+            result += this.indent + "end\n";
+            result += this.indent + `${captured.join(",")} = ${copies.join(",")}\n`;
+        } else {
+            result += this.transpileLoopBody(node);
+        }
+        if (node.incrementor) {
+            result += this.transpileExpressionStatement(node.incrementor);
+        }
         this.popIndent();
 
         result += this.indent + "end\n";
 
+        if (isBlockScoped) {
+            this.popIndent();
+            result += this.indent + "end\n";
+        }
+
         return result;
     }
 
+    // Header of a native numeric for loop (for i = a, b - 1 do) for loops counting a let variable in constant
+    // steps towards a loop invariant bound, if the body never writes the variable. Counters are assumed integral.
+    public transpileNumericForHeader(node: ts.ForStatement): string | undefined {
+        const initializer = node.initializer;
+        if (!initializer
+            || !ts.isVariableDeclarationList(initializer)
+            || (initializer.flags & ts.NodeFlags.Let) === 0
+            || initializer.declarations.length !== 1) {
+            return undefined;
+        }
+
+        const declaration = initializer.declarations[0];
+        if (!ts.isIdentifier(declaration.name) || !declaration.initializer) {
+            return undefined;
+        }
+        if (!tsHelper.isIntegerExpression(declaration.initializer, this.checker)) {
+            return undefined;
+        }
+
+        const symbol = this.checker.getSymbolAtLocation(declaration.name);
+        const isCounter = (expression: ts.Expression) =>
+            ts.isIdentifier(expression) && this.checker.getSymbolAtLocation(expression) === symbol;
+
+        // Step from i++, i--, i += n or i -= n
+        const incrementor = node.incrementor;
+        let step: number;
+        if (incrementor && (ts.isPrefixUnaryExpression(incrementor) || ts.isPostfixUnaryExpression(incrementor))
+            && isCounter(incrementor.operand)) {
+            if (incrementor.operator === ts.SyntaxKind.PlusPlusToken) {
+                step = 1;
+            } else if (incrementor.operator === ts.SyntaxKind.MinusMinusToken) {
+                step = -1;
+            }
+        } else if (incrementor && ts.isBinaryExpression(incrementor) && isCounter(incrementor.left)
+            && ts.isNumericLiteral(incrementor.right)) {
+            const amount = Number(incrementor.right.text);
+            if (incrementor.operatorToken.kind === ts.SyntaxKind.PlusEqualsToken) {
+                step = amount;
+            } else if (incrementor.operatorToken.kind === ts.SyntaxKind.MinusEqualsToken) {
+                step = -amount;
+            }
+        }
+        if (!step || step % 1 !== 0) {
+            return undefined;
+        }
+
+        // Bound from i < b, i <= b, i > b, i >= b or their mirrored forms
+        const condition = node.condition;
+        if (!condition || !ts.isBinaryExpression(condition)) {
+            return undefined;
+        }
+        const mirrored: {[operator: number]: ts.SyntaxKind} = {
+            [ts.SyntaxKind.LessThanToken]: ts.SyntaxKind.GreaterThanToken,
+            [ts.SyntaxKind.LessThanEqualsToken]: ts.SyntaxKind.GreaterThanEqualsToken,
+            [ts.SyntaxKind.GreaterThanToken]: ts.SyntaxKind.LessThanToken,
+            [ts.SyntaxKind.GreaterThanEqualsToken]: ts.SyntaxKind.LessThanEqualsToken,
+        };
+        let operator = condition.operatorToken.kind;
+        let bound: ts.Expression;
+        if (isCounter(condition.left)) {
+            bound = condition.right;
+        } else if (isCounter(condition.right)) {
+            bound = condition.left;
+            operator = mirrored[operator];
+        }
+        if (!bound || !tsHelper.isLoopInvariant(bound, node.statement, this.checker)
+            || tsHelper.isAssignedIn(symbol, node.statement, this.checker)) {
+            return undefined;
+        }
+
+        // Strict comparisons stop at the last integer before the bound
+        let strict: boolean;
+        if (step > 0 && (operator === ts.SyntaxKind.LessThanToken || operator === ts.SyntaxKind.LessThanEqualsToken)) {
+            strict = operator === ts.SyntaxKind.LessThanToken;
+        } else if (step < 0
+            && (operator === ts.SyntaxKind.GreaterThanToken || operator === ts.SyntaxKind.GreaterThanEqualsToken)) {
+            strict = operator === ts.SyntaxKind.GreaterThanToken;
+        } else {
+            return undefined;
+        }
+
+        let limit: string;
+        if (ts.isNumericLiteral(bound)) {
+            const value = Number(bound.text);
+            if (strict) {
+                limit = (step > 0 ? Math.ceil(value) - 1 : Math.floor(value) + 1).toString();
+            } else {
+                limit = (step > 0 ? Math.floor(value) : Math.ceil(value)).toString();
+            }
+        } else {
+            limit = this.transpileExpression(bound);
+            if (strict && tsHelper.isIntegerExpression(bound, this.checker)) {
+                limit += step > 0 ? " - 1" : " + 1";
+            } else if (strict) {
+                limit = step > 0 ? `math.ceil(${limit}) - 1` : `math.floor(${limit}) + 1`;
+            }
+        }
+
+        const start = this.transpileExpression(declaration.initializer);
+        const stepSuffix = step !== 1 ? `, ${step}` : "";
+        return `for ${declaration.name.escapedText} = ${start}, ${limit}${stepSuffix} do\n`;
+    }
+
     public transpileForOf(node: ts.ForOfStatement): string {
         // Get variable identifier
         const variable = (node.initializer as ts.VariableDeclarationList).declarations[0];
         const identifier = variable.name as ts.Identifier;
 
         // Transpile expression
-        const expression = this.transpileExpression(node.expression);
+        let expression = this.transpileExpression(node.expression);
 
-        // Use ipairs for array types, pairs otherwise
-        const isArray = tsHelper.isArrayType(this.checker.getTypeAtLocation(node.expression), this.checker);
-        const pairs = isArray ? "ipairs" : "pairs";
+        // Use ipairs for array types, the iterator protocol for iterators and generators, pairs otherwise
+        const expressionType = this.checker.getTypeAtLocation(node.expression);
+        let pairs = "pairs";
+        let result = "";
+        if (tsHelper.isArrayType(expressionType, this.checker)) {
+            pairs = "ipairs";
+        } else if (tsHelper.isIteratorType(expressionType)) {
+            pairs = "TS_iterator";
+            // Keep the iterator in a local so jumps out of the loop can close it
+            const breakable = this.breakableStack[this.breakableStack.length - 1];
+            if (breakable && breakable.node === node) {
+                breakable.iterator = `____iterator${this.genVarCounter}`;
+                this.genVarCounter++;
+                result += this.indent + `local ${breakable.iterator} = ${expression}\n`;
+                expression = breakable.iterator;
+            }
+        }
 
         // Make header
-        let result = this.indent + `for _, ${identifier.escapedText} in ${pairs}(${expression}) do\n`;
+        result += this.indent + `for _, ${identifier.escapedText} in ${pairs}(${expression}) do\n`;
 
         // For body
         this.pushIndent();
@@ -466,127 +1097,281 @@ export abstract class LuaTranspiler {
         }
     }
 
-    public transpileSwitch(node: ts.SwitchStatement): string {
-        const expression = this.transpileExpression(node.expression, true);
-        const clauses = node.caseBlock.clauses;
+    // Switch statements become an if/elseif chain when no clause falls through into the next one,
+    // otherwise the chain only selects the clause to start at and clauses run in order from there
+    public transpileSwitch(node: ts.SwitchStatement, labels: string[] = []): string {
+        const switchId = this.genVarCounter;
+        this.genVarCounter++;
+        const switchName = `____switch${switchId}`;
+
+        const groups = tsHelper.getSwitchClauseGroups(node);
+        const breaks = tsHelper.getSwitchBreaks(node, labels);
+        const trailingBreaks = groups
+            .map(group => tsHelper.getTrailingStatement(group.statements))
+            .filter(statement => breaks.indexOf(statement as ts.BreakStatement) !== -1);
+        const hasFallthrough = !tsHelper.isSimpleSwitch(groups);
+        const hasInnerBreaks = breaks.length > trailingBreaks.length;
+
+        const breakable: Breakable = {
+            brokenOutOf: [],
+            isLuaLoop: this.isSwitchLuaLoop(hasFallthrough, hasInnerBreaks),
+            labels,
+            node,
+        };
+        this.breakableStack.push(breakable);
+
+        let result = this.indent + (breakable.isLuaLoop ? "repeat\n" : "do\n");
+        this.pushIndent();
+        result += this.indent + `local ${switchName} = ${this.transpileExpression(node.expression)}\n`;
+        if (hasFallthrough) {
+            result += this.transpileSwitchFallthrough(groups, switchName, switchId, breakable);
+        } else {
+            result += this.transpileSwitchChain(groups, switchName, trailingBreaks);
+        }
+        this.popIndent();
+        result += this.indent + (breakable.isLuaLoop ? "until true\n" : "end\n");
+
+        this.breakableStack.pop();
+        return this.transpileBreakableEnd(breakable, result);
+    }
+
+    // Without goto, a switch that can be broken out of early is wrapped in a loop running once
+    public isSwitchLuaLoop(hasFallthrough: boolean, hasInnerBreaks: boolean): boolean {
+        return hasFallthrough || hasInnerBreaks;
+    }
 
-        let result = this.indent + "-------Switch statement start-------\n";
+    // Condition matching any of the case expressions of a group with ===, i.e. ____switch0 == 1 or ____switch0 == 2
+    public transpileSwitchCondition(group: SwitchClauseGroup, switchName: string): string {
+        return group.cases
+            .map(clause => `${switchName} == ${this.transpileExpression(clause.expression, true)}`)
+            .join(" or ");
+    }
 
-        const jumpTableName = "____switch" + this.genVarCounter;
-        this.genVarCounter++;
+    public transpileSwitchChain(groups: SwitchClauseGroup[], switchName: string, omitted: ts.Statement[]): string {
+        // The default clause can only be taken when no other case matches, regardless of its position
+        const defaultGroup = groups.filter(group => group.isDefault)[0];
+        const caseGroups = groups.filter(group => group !== defaultGroup && group.cases.length > 0);
 
-        result += this.indent + `local ${jumpTableName} = {}\n`;
+        let result = "";
+        caseGroups.forEach((group, index) => {
+            const keyword = index === 0 ? "if" : "elseif";
+            result += this.indent + `${keyword} ${this.transpileSwitchCondition(group, switchName)} then\n`;
+            result += this.transpileSwitchClauseStatements(group.statements, omitted);
+        });
 
-        // If statement to go to right entry label
-        clauses.forEach((clause, index) => {
-            if (ts.isCaseClause(clause)) {
-                result += this.indent + `-- case:\n`;
-                result += this.indent +
-                          `${jumpTableName}[${this.transpileExpression(clause.expression, true)}] = function()\n`;
+        if (defaultGroup) {
+            if (caseGroups.length === 0) {
+                return this.transpileSwitchClauseStatements(defaultGroup.statements, omitted, false);
             }
-            if (ts.isDefaultClause(clause)) {
-                result += this.indent + `-- default:\n`;
-                result += this.indent + `${jumpTableName}["____default${this.genVarCounter}"] = function()\n`;
+            result += this.indent + "else\n";
+            result += this.transpileSwitchClauseStatements(defaultGroup.statements, omitted);
+        }
+        return caseGroups.length > 0 ? result + this.indent + "end\n" : result;
+    }
+
+    // Select the group to start at in a variable, then run all groups starting from there
+    public transpileSwitchFallthrough(groups: SwitchClauseGroup[],
+                                      switchName: string,
+                                      switchId: number,
+                                      breakable: Breakable): string {
+        const caseName = `____case${switchId}`;
+        const defaultIndex = groups.map(group => group.isDefault).indexOf(true);
+
+        let result = this.indent + `local ${caseName} = ${defaultIndex !== -1 ? defaultIndex : groups.length}\n`;
+        let keyword = "if";
+        groups.forEach((group, index) => {
+            if (group.cases.length > 0) {
+                result += this.indent + `${keyword} ${this.transpileSwitchCondition(group, switchName)} then\n`;
+                result += this.indent + `    ${caseName} = ${index}\n`;
+                keyword = "elseif";
             }
-            this.pushIndent();
+        });
+        if (keyword !== "if") {
+            result += this.indent + "end\n";
+        }
 
-            this.transpilingSwitch++;
-            clause.statements.forEach(statement => {
-                result += this.transpileNode(statement);
-            });
-            this.transpilingSwitch--;
-
-            let i = index + 1;
-            if (i < clauses.length && !tsHelper.containsStatement(clause.statements, ts.SyntaxKind.BreakStatement)) {
-                let nextClause = clauses[i];
-                while (i < clauses.length
-                    && ts.isCaseClause(nextClause)
-                    && nextClause.statements.length === 0
-                ) {
-                    i++;
-                    nextClause = clauses[i];
-                }
+        groups.forEach((group, index) => {
+            result += this.indent + `if ${caseName} <= ${index} then\n`;
+            result += this.transpileSwitchClauseStatements(group.statements, []);
+            result += this.indent + "end\n";
+        });
+        return result;
+    }
 
-                if (i !== index && nextClause) {
-                    if (ts.isCaseClause(nextClause)) {
-                        result += this.indent +
-                                  `${jumpTableName}[${this.transpileExpression(nextClause.expression, true)}]()\n`;
-                    } else {
-                        result += this.indent + `${jumpTableName}["____default${this.genVarCounter}"]()\n`;
-                    }
-                }
+    // Transpile the statements of a clause group, leaving out its trailing break
+    public transpileSwitchClauseStatements(statements: ts.Statement[],
+                                           omitted: ts.Statement[],
+                                           indent = true): string {
+        if (indent) {
+            this.pushIndent();
+        }
+        let result = "";
+        statements.forEach((statement, index) => {
+            const isLast = index === statements.length - 1;
+            if (isLast && omitted.indexOf(statement) !== -1) {
+                return;
+            }
+            if (isLast && ts.isBlock(statement)) {
+                result += this.indent + "do\n";
+                result += this.transpileSwitchClauseStatements(statement.statements.slice(), omitted);
+                result += this.indent + "end\n";
             } else {
-                result += this.indent + `-- break;\n`;
+                result += this.transpileNode(statement);
             }
-
-            this.popIndent();
-
-            result += this.indent + `end\n`;
         });
-        result += this.indent +
-                  `if ${jumpTableName}[${expression}] then ${jumpTableName}[${expression}]()\n`;
-        result += this.indent +
-                  `elseif ${jumpTableName}["____default${this.genVarCounter}"] ` +
-                  `then ${jumpTableName}["____default${this.genVarCounter}"]() end\n`;
-        result += this.indent +
-                  "--------Switch statement end--------\n";
-
-        // Increment counter for next switch statement
-        this.genVarCounter += clauses.length;
+        if (indent) {
+            this.popIndent();
+        }
         return result;
     }
 
+    // Transpile a try statement, the try and catch blocks run in functions called with pcall.
+    // These functions return a result code to propagate returns (true) and jumps (their index + 1)
+    // out of the try statement after the finally block has run.
     public transpileTry(node: ts.TryStatement): string {
-        let tryFunc = "function()\n";
+        this.validateTrySuspension(node);
+
+        const tryId = this.genVarCounter;
+        this.genVarCounter++;
+        const successName = `____try${tryId}`;
+        const resultName = `____result${tryId}`;
+        const valueName = `____value${tryId}`;
+
+        const context: TryContext = { node, hasReturn: false, jumps: [] };
+        this.tryStack.push(context);
+        let result = this.indent + "do\n";
         this.pushIndent();
-        tryFunc += this.transpileBlock(node.tryBlock);
-        this.popIndent();
-        tryFunc += "end";
-        let catchFunc = "function(e)\nend";
-        if (node.catchClause && node.catchClause.variableDeclaration) {
-            const variableName = (node.catchClause.variableDeclaration.name as ts.Identifier).escapedText;
-            catchFunc = this.indent + `function(${variableName})\n`;
+        result += this.indent + `local ${successName}, ${resultName}, ${valueName} = pcall(function()\n`;
+        result += this.transpileIndentedBlock(node.tryBlock);
+        result += this.indent + "end)\n";
+        if (node.catchClause) {
+            const variable = node.catchClause.variableDeclaration;
+            const parameter = variable ? this.transpileExpression(variable.name) : "";
+            // Closing a generator with return() unwinds its body with an error only finally blocks handle
+            const isGenerator = this.isInsideGenerator(node);
+            const condition = isGenerator ? `not ${successName} and not TS_isGeneratorReturn(${resultName})`
+                                          : `not ${successName}`;
+            result += this.indent + `if ${condition} then\n`;
             this.pushIndent();
-            catchFunc += this.transpileBlock(node.catchClause.block);
+            result += this.indent + `${successName}, ${resultName}, ${valueName} = pcall(function(${parameter})\n`;
+            result += this.transpileIndentedBlock(node.catchClause.block);
+            result += this.indent + `end, ${resultName})\n`;
             this.popIndent();
-            catchFunc += "end";
+            result += this.indent + "end\n";
         }
-        let result = this.indent + `xpcall(${tryFunc},\n${catchFunc})\n`;
+        this.tryStack.pop();
+
         if (node.finallyBlock) {
-            result += this.transpileBlock(node.finallyBlock);
+            // Returns and jumps in the finally block have to be the last statement of a Lua block
+            result += this.indent + "do\n" + this.transpileIndentedBlock(node.finallyBlock) + this.indent + "end\n";
         }
-        return result;
+        result += this.indent + `if not ${successName} then\n`;
+        result += this.indent + `    error(${resultName}, 0)\n`;
+        result += this.indent + "end\n";
+
+        // Propagate returns and jumps out of the try and catch functions
+        let keyword = "if";
+        if (context.hasReturn) {
+            result += this.indent + `if ${resultName} == true then\n`;
+            this.pushIndent();
+            result += this.indent + this.transpileReturnValue(node, valueName) + "\n";
+            this.popIndent();
+            keyword = "elseif";
+        }
+        context.jumps.forEach((jump, index) => {
+            result += this.indent + `${keyword} ${resultName} == ${index + 1} then\n`;
+            this.pushIndent();
+            result += ts.isBreakStatement(jump.node)
+                ? this.transpileBreak(jump.node, node)
+                : this.transpileContinue(jump.node, node);
+            this.popIndent();
+            keyword = "elseif";
+        });
+        if (keyword !== "if") {
+            result += this.indent + "end\n";
+        }
+        this.popIndent();
+        return result + this.indent + "end\n";
     }
 
-    public transpileThrow(node: ts.ThrowStatement): string {
-        if (ts.isStringLiteral(node.expression)) {
-            return `error("${node.expression.text}")`;
-        } else {
+    // Check if a node is in the body of a generator function
+    public isInsideGenerator(node: ts.Node): boolean {
+        const declaration = tsHelper.findFirstNodeAbove(node, ts.isFunctionLike);
+        return !!declaration && !!(declaration as ts.FunctionLikeDeclaration).asteriskToken;
+    }
+
+    // Coroutines can not yield across pcall, so the try and catch blocks must not contain yield or await
+    public validateTrySuspension(node: ts.TryStatement): void {
+        const suspension = tsHelper.findSuspension(node.tryBlock)
+            || (node.catchClause && tsHelper.findSuspension(node.catchClause.block));
+        if (suspension) {
+            const keyword = ts.isYieldExpression(suspension) ? "yield" : "await";
             throw new TranspileError(
-                "Unsupported throw expression, only string literals are supported",
-                node.expression
+                `Unsupported ${keyword} inside try, ` +
+                `${keyword} inside try is not supported in Lua ${this.options.luaTarget}.`,
+                suspension
             );
         }
     }
 
+    public transpileThrow(node: ts.ThrowStatement): string {
+        // Level 0 so the thrown value is caught as is, without position information added to strings
+        return this.indent + `error(${this.transpileExpression(node.expression)}, 0)\n`;
+    }
+
     public transpileReturn(node: ts.ReturnStatement): string {
+        if (node.expression) {
+            this.validateFunctionContext(node.expression);
+        }
+
+        // Inside a try or catch function, return the value with the return result code
+        const tryStatement = tsHelper.findEnclosingTry(node);
+        if (tryStatement) {
+            this.getTryContext(tryStatement).hasReturn = true;
+            const value = node.expression ? "true, " + this.transpileExpression(node.expression) : "true";
+            return this.transpileReturnStatement(node, tryStatement, value);
+        }
+
+        const boundary = tsHelper.findFirstNodeAbove(node, ts.isFunctionLike) || node.getSourceFile();
         if (node.expression) {
             // If parent function is a TupleReturn function
             // and return expression is an array literal, leave out brackets.
             const declaration = tsHelper.findFirstNodeAbove(node, ts.isFunctionDeclaration);
             if (declaration && tsHelper.isTupleReturnFunction(this.checker.getTypeAtLocation(declaration), this.checker)
                 && ts.isArrayLiteralExpression(node.expression)) {
-                return "return " + node.expression.elements.map(elem => this.transpileExpression(elem)).join(",");
+                const values = node.expression.elements.map(elem => this.transpileExpression(elem)).join(",");
+                return this.transpileReturnStatement(node, boundary, values);
             }
 
             // Otherwise just do a normal return
-            return "return " + this.transpileExpression(node.expression);
+            return this.transpileReturnStatement(node, boundary, this.transpileExpression(node.expression));
         } else {
-            return "return";
+            return this.transpileReturnStatement(node, boundary, "");
         }
     }
 
+    // Return a value propagated out of a try statement
+    public transpileReturnValue(tryStatement: ts.TryStatement, value: string): string {
+        const outerTryStatement = tsHelper.findEnclosingTry(tryStatement);
+        if (outerTryStatement) {
+            this.getTryContext(outerTryStatement).hasReturn = true;
+            return this.transpileReturnStatement(tryStatement, outerTryStatement, `true, ${value}`);
+        }
+        const boundary = tsHelper.findFirstNodeAbove(tryStatement, ts.isFunctionLike) || tryStatement.getSourceFile();
+        // Tuples returned from a TupleReturn function are propagated as a table
+        const declaration = tsHelper.findFirstNodeAbove(tryStatement, ts.isFunctionDeclaration);
+        if (declaration && tsHelper.isTupleReturnFunction(this.checker.getTypeAtLocation(declaration), this.checker)) {
+            return this.transpileReturnStatement(tryStatement, boundary, this.transpileUnpack(value));
+        }
+        return this.transpileReturnStatement(tryStatement, boundary, value);
+    }
+
     public transpileExpression(node: ts.Node, brackets?: boolean): string {
+        const substitution = this.substitutions.filter(candidate => candidate.node === node)[0];
+        if (substitution) {
+            return substitution.lua;
+        }
+
         switch (node.kind) {
             case ts.SyntaxKind.BinaryExpression:
                 // Add brackets to preserve ordering
@@ -609,7 +1394,7 @@ export abstract class LuaTranspiler {
                 return (node as ts.Identifier).text;
             case ts.SyntaxKind.StringLiteral:
             case ts.SyntaxKind.NoSubstitutionTemplateLiteral:
-                const text = (node as ts.StringLiteral).text;
+                const text = tsHelper.escapeString((node as ts.StringLiteral).text);
                 return `"${text}"`;
             case ts.SyntaxKind.TemplateExpression:
                 return this.transpileTemplateExpression(node as ts.TemplateExpression);
@@ -623,6 +1408,10 @@ export abstract class LuaTranspiler {
             case ts.SyntaxKind.UndefinedKeyword:
                 return "nil";
             case ts.SyntaxKind.ThisKeyword:
+                // Static members are called without self, this is the class itself there
+                if (tsHelper.isInStaticContext(node)) {
+                    return this.classStack[this.classStack.length - 1];
+                }
                 return "self";
             case ts.SyntaxKind.PostfixUnaryExpression:
                 return this.transpilePostfixUnaryExpression(node as ts.PostfixUnaryExpression);
@@ -641,16 +1430,39 @@ export abstract class LuaTranspiler {
                 return this.transpileNewExpression(node as ts.NewExpression);
             case ts.SyntaxKind.ComputedPropertyName:
                 return "[" + this.transpileExpression((node as ts.ComputedPropertyName).expression) + "]";
+            case ts.SyntaxKind.SpreadElement:
+                // Only spread elements in trailing position end up here, others are concatenated
+                const spreadExpression = (node as ts.SpreadElement).expression;
+                if (tsHelper.isSpreadableArrayLiteral(spreadExpression)) {
+                    return spreadExpression.elements.map(e => this.transpileExpression(e)).join(",");
+                }
+                return this.transpileUnpack(this.transpileExpression(spreadExpression));
+            case ts.SyntaxKind.OmittedExpression:
+                return "nil";
+            case ts.SyntaxKind.YieldExpression:
+                return this.transpileYieldExpression(node as ts.YieldExpression);
+            case ts.SyntaxKind.AwaitExpression:
+                return `TS_await(${this.transpileExpression((node as ts.AwaitExpression).expression)})`;
             case ts.SyntaxKind.ParenthesizedExpression:
+                const innerExpression = (node as ts.ParenthesizedExpression).expression;
+                if (tsHelper.isDestructuringAssignment(innerExpression)) {
+                    // Destructuring assignments are lowered to statements, no brackets allowed
+                    return this.transpileDestructuringAssignment(innerExpression as ts.BinaryExpression);
+                }
                 return "(" + this.transpileExpression((node as ts.ParenthesizedExpression).expression) + ")";
             case ts.SyntaxKind.SuperKeyword:
-                return "self.__base";
+                return this.transpileSuperExpression(node as ts.SuperExpression);
+            case ts.SyntaxKind.ClassExpression:
+                return this.transpileClassExpression(node as ts.ClassExpression);
             case ts.SyntaxKind.TypeAssertionExpression:
                 // Simply ignore the type assertion
                 return this.transpileExpression((node as ts.TypeAssertion).expression);
             case ts.SyntaxKind.AsExpression:
                 // Also ignore as casts
                 return this.transpileExpression((node as ts.AsExpression).expression);
+            case ts.SyntaxKind.NonNullExpression:
+                // And non-null assertions
+                return this.transpileExpression((node as ts.NonNullExpression).expression, brackets);
             case ts.SyntaxKind.TypeOfExpression:
                 return this.transpileTypeOfExpression(node as ts.TypeOfExpression);
             default:
@@ -662,21 +1474,21 @@ export abstract class LuaTranspiler {
     }
 
     public transpileBinaryExpression(node: ts.BinaryExpression, brackets?: boolean): string {
+        // Destructuring assignment
+        if (tsHelper.isDestructuringAssignment(node)) {
+            return this.transpileDestructuringAssignment(node);
+        }
+
+        // Assignments used as a value
+        const target = tsHelper.getAssignmentTarget(node);
+        if (target) {
+            return this.transpileAssignmentExpression(node, target);
+        }
+
         // Transpile operands
         const lhs = this.transpileExpression(node.left, true);
         const rhs = this.transpileExpression(node.right, true);
 
-        // Check if this is an assignment token, then handle accordingly
-        const [isAssignment, operator] = tsHelper.isBinaryAssignmentToken(node.operatorToken.kind);
-        if (isAssignment) {
-            const valueExpression = ts.createBinary(node.left, operator, node.right);
-            const value = this.transpileBinaryExpression(valueExpression);
-            if (tsHelper.hasSetAccessor(node.left, this.checker)) {
-                return this.transpileSetAccessor(node.left as ts.PropertyAccessExpression, value);
-            }
-            return `${lhs} = ${value}`;
-        }
-
         let result = "";
 
         // Transpile Bitops
@@ -736,13 +1548,6 @@ export abstract class LuaTranspiler {
                 case ts.SyntaxKind.LessThanEqualsToken:
                     result = `${lhs}<=${rhs}`;
                     break;
-                case ts.SyntaxKind.EqualsToken:
-                    if (tsHelper.hasSetAccessor(node.left, this.checker)) {
-                        return this.transpileSetAccessor(node.left as ts.PropertyAccessExpression, rhs);
-                    }
-
-                    result = `${lhs} = ${rhs}`;
-                    break;
                 case ts.SyntaxKind.EqualsEqualsToken:
                 case ts.SyntaxKind.EqualsEqualsEqualsToken:
                     result = `${lhs}==${rhs}`;
@@ -782,33 +1587,56 @@ export abstract class LuaTranspiler {
     }
 
     public transpileTemplateExpression(node: ts.TemplateExpression) {
-        const parts = [`"${node.head.text}"`];
+        const parts = [`"${tsHelper.escapeString(node.head.text)}"`];
         node.templateSpans.forEach(span => {
             const expr = this.transpileExpression(span.expression, true);
-            if (ts.isTemplateTail(span.literal)) {
-                parts.push(`tostring(${expr}).."${span.literal.text}"`);
-            } else {
-                parts.push(`tostring(${expr}).."${span.literal.text}"`);
-            }
+            const text = tsHelper.escapeString(span.literal.text);
+            parts.push(`tostring(${expr}).."${text}"`);
         });
         return parts.join("..");
     }
 
+    // Transpile a conditional expression to cond and a or b when a can not be false or nil,
+    // otherwise to an if statement assigning a temporary before the statement, or TS_ITE as a last resort.
+    // Without strict null checks the type of a does not rule out nil, so only the expression itself can.
     public transpileConditionalExpression(node: ts.ConditionalExpression, brackets?: boolean): string {
-        const condition = this.transpileExpression(node.condition);
+        const strictNullChecks = this.options.strictNullChecks !== undefined
+            ? this.options.strictNullChecks
+            : this.options.strict;
+        if (!tsHelper.canBeFalseOrNil(this.checker.getTypeAtLocation(node.whenTrue))
+            && (strictNullChecks || tsHelper.isNonNullExpression(node.whenTrue))) {
+            const condition = this.transpileExpression(node.condition, true);
+            const whenTrue = this.transpileExpression(node.whenTrue, true);
+            const whenFalse = this.transpileExpression(node.whenFalse, true);
+            const result = `${condition} and ${whenTrue} or ${whenFalse}`;
+            return brackets ? `(${result})` : result;
+        }
+
+        if (tsHelper.canHoistExpression(node)) {
+            const condition = this.transpileExpression(node.condition);
+            const name = `____ternary${this.genVarCounter}`;
+            this.genVarCounter++;
+            let prelude = this.indent + `local ${name}\n`;
+            prelude += this.indent + `if ${condition} then\n`;
+            prelude += this.indent + `    ${name} = ${this.transpileExpression(node.whenTrue)}\n`;
+            prelude += this.indent + "else\n";
+            prelude += this.indent + `    ${name} = ${this.transpileExpression(node.whenFalse)}\n`;
+            prelude += this.indent + "end\n";
+            this.preludes.push(prelude);
+            return name;
+        }
+
         const val1 = this.transpileExpression(node.whenTrue);
         const val2 = this.transpileExpression(node.whenFalse);
-
-        return `TS_ITE(${condition},function() return ${val1} end,function() return ${val2} end)`;
+        const ite = this.transpileExpression(node.condition);
+        return `TS_ITE(${ite},function() return ${val1} end,function() return ${val2} end)`;
     }
 
     public transpilePostfixUnaryExpression(node: ts.PostfixUnaryExpression): string {
-        const operand = this.transpileExpression(node.operand, true);
         switch (node.operator) {
             case ts.SyntaxKind.PlusPlusToken:
-                return `${operand}=${operand}+1`;
             case ts.SyntaxKind.MinusMinusToken:
-                return `${operand}=${operand}-1`;
+                return this.transpileAssignmentExpression(node, tsHelper.getAssignmentTarget(node));
             default:
                 const operator = tsHelper.enumName(node.operator, ts.SyntaxKind);
                 throw new TranspileError("Unsupported unary postfix: " + operator,
@@ -817,14 +1645,14 @@ export abstract class LuaTranspiler {
     }
 
     public transpilePrefixUnaryExpression(node: ts.PrefixUnaryExpression): string {
+        if (node.operator === ts.SyntaxKind.PlusPlusToken || node.operator === ts.SyntaxKind.MinusMinusToken) {
+            return this.transpileAssignmentExpression(node, tsHelper.getAssignmentTarget(node));
+        }
+
         const operand = this.transpileExpression(node.operand, true);
         switch (node.operator) {
             case ts.SyntaxKind.TildeToken:
                 return this.transpileUnaryBitOperation(node, operand);
-            case ts.SyntaxKind.PlusPlusToken:
-                return `${operand}=${operand}+1`;
-            case ts.SyntaxKind.MinusMinusToken:
-                return `${operand}=${operand}-1`;
             case ts.SyntaxKind.ExclamationToken:
                 return `(not ${operand})`;
             case ts.SyntaxKind.MinusToken:
@@ -859,15 +1687,59 @@ export abstract class LuaTranspiler {
         // Handle super calls properly
         if (node.expression.kind === ts.SyntaxKind.SuperKeyword) {
             params = this.transpileArguments(node.arguments, ts.createNode(ts.SyntaxKind.ThisKeyword) as ts.Expression);
-            const className = this.classStack[this.classStack.length - 1];
-            return `${className}.__base.constructor(${params})`;
+            const baseName = this.transpileSuperExpression(node.expression as ts.SuperExpression);
+            return `${baseName}.constructor(${params})`;
         }
 
-        callPath = this.transpileExpression(node.expression);
         params = this.transpileArguments(node.arguments);
+        if (this.isSelfCall(node)) {
+            if (ts.isElementAccessExpression(node.expression)) {
+                // Methods looked up by key are called on their receiver
+                const receiver = this.transpileExpression(node.expression.expression);
+                const key = this.transpileExpression(node.expression.argumentExpression);
+                const result = `TS_callMethod(${[receiver, key, params].filter(p => p !== "").join(",")})`;
+                return isTupleReturn && !isInDestructingAssignment ? `({ ${result} })` : result;
+            }
+            // Functions taking self called without receiver get nil, like this is undefined in JavaScript
+            params = params !== "" ? `nil,${params}` : "nil";
+        }
+
+        callPath = this.transpileExpression(node.expression);
         return isTupleReturn && !isInDestructingAssignment ? `({ ${callPath}(${params}) })` : `${callPath}(${params})`;
     }
 
+    // Functions taking self would get the first argument as self when called without self. Checked where function
+    // values flow into a typed slot: call arguments, assigned values, initializers and returned values.
+    public validateFunctionContext(node: ts.Expression): void {
+        const isFunctionValue = ts.isIdentifier(node) || ts.isPropertyAccessExpression(node)
+            || ts.isFunctionExpression(node);
+        if (isFunctionValue
+            && node.parent
+            && !(ts.isPropertyAccessExpression(node) && tsHelper.isMethodReference(node, this.checker))
+            && tsHelper.isSelfFunctionPassedToNoSelfSlot(node, this.checker)) {
+            throw new TranspileError(
+                "Unable to convert function with a 'this' parameter to function with 'this: void'. "
+                + "Wrap it in an arrow function or declare it with 'this: void'.",
+                node
+            );
+        }
+    }
+
+    // Check if the called function takes self, undefined if it has no declaration
+    public isSelfCall(node: ts.CallExpression): boolean | undefined {
+        const signature = this.checker.getResolvedSignature(node);
+        const declaration = signature && signature.getDeclaration();
+        return declaration ? tsHelper.hasSelfContext(declaration, this.checker) : undefined;
+    }
+
+    public transpileYieldExpression(node: ts.YieldExpression): string {
+        const expression = node.expression ? this.transpileExpression(node.expression) : "";
+        if (node.asteriskToken) {
+            return `TS_yieldStar(${expression})`;
+        }
+        return `TS_yield(${expression})`;
+    }
+
     public transpilePropertyCall(node: ts.CallExpression) {
         let params;
         let callPath;
@@ -901,15 +1773,34 @@ export abstract class LuaTranspiler {
             return this.transpileArrayCallExpression(node);
         }
 
-        // Get the type of the function
-        const functionType = this.checker.getTypeAtLocation(node.expression);
-        // Don't replace . with : for namespaces
-        if ((ownerType.symbol && (ownerType.symbol.flags & ts.SymbolFlags.Namespace))
-            // If function is defined as property with lambda type use . instead of :
-            || (functionType.symbol && (functionType.symbol.flags & ts.SymbolFlags.TypeLiteral))) {
+        if (tsHelper.isFunctionPrototypeMember(node.expression, this.checker)) {
+            return this.transpileFunctionCallExpression(node);
+        }
+
+        // The declared this parameter of the called function decides if self is passed,
+        // functions in namespaces without declaration are called without self as well
+        const isSelfCall = this.isSelfCall(node);
+        if (isSelfCall === false
+            || (isSelfCall === undefined && ownerType.symbol && (ownerType.symbol.flags & ts.SymbolFlags.Namespace))) {
             callPath = this.transpileExpression(node.expression);
             params = this.transpileArguments(node.arguments);
             return `${callPath}(${params})`;
+        } else if (node.expression.expression.kind === ts.SyntaxKind.SuperKeyword) {
+            // Call the base class method on the instance, the base class table is no valid self
+            callPath = this.transpileExpression(node.expression);
+            params = this.transpileArguments(node.arguments, ts.createNode(ts.SyntaxKind.ThisKeyword) as ts.Expression);
+            return `${callPath}(${params})`;
+        } else if (!tsHelper.isLuaIdentifier(node.expression.name.escapedText as string)) {
+            // Keywords (i.e. then, return) can't be called with :, pass the receiver explicitly instead
+            const receiver = this.transpileExpression(node.expression.expression);
+            const methodName = `"${node.expression.name.escapedText}"`;
+            params = this.transpileArguments(node.arguments);
+            if (tsHelper.isLuaIdentifier(receiver)) {
+                const args = params !== "" ? `${receiver},${params}` : receiver;
+                return `${receiver}[${methodName}](${args})`;
+            }
+            const callArgs = params !== "" ? `${receiver},${methodName},${params}` : `${receiver},${methodName}`;
+            return `TS_callMethod(${callArgs})`;
         } else {
              // Replace last . with : here
             callPath =
@@ -919,6 +1810,33 @@ export abstract class LuaTranspiler {
         }
     }
 
+    // Lower call, apply and bind, the receiver is only passed to functions that take self
+    public transpileFunctionCallExpression(node: ts.CallExpression): string {
+        const expression = node.expression as ts.PropertyAccessExpression;
+        const caller = this.transpileExpression(expression.expression);
+        const hasSelf = tsHelper.hasSelfParameter(this.checker.getTypeAtLocation(expression.expression), this.checker);
+        const [thisArg, ...args] = node.arguments;
+        const parameters: string[] = [];
+        if (hasSelf) {
+            parameters.push(thisArg ? this.transpileExpression(thisArg) : "nil");
+        }
+        switch (expression.name.escapedText) {
+            case "call":
+                args.forEach(arg => parameters.push(this.transpileExpression(arg)));
+                return `${caller}(${parameters.join(",")})`;
+            case "apply":
+                if (args.length > 0) {
+                    parameters.push(this.transpileUnpack(this.transpileExpression(args[0])));
+                }
+                return `${caller}(${parameters.join(",")})`;
+            case "bind":
+                args.forEach(arg => parameters.push(this.transpileExpression(arg)));
+                return `TS_bind(${[caller, ...parameters].join(",")})`;
+            default:
+                throw new TranspileError("Unsupported function property: " + expression.name.escapedText, node);
+        }
+    }
+
     public transpileStringCallExpression(node: ts.CallExpression): string {
         const expression = node.expression as ts.PropertyAccessExpression;
         const params = this.transpileArguments(node.arguments);
@@ -1009,22 +1927,76 @@ export abstract class LuaTranspiler {
 
     public transpileArguments(params: ts.NodeArray<ts.Expression>, context?: ts.Expression): string {
         const parameters: string[] = [];
+        params.forEach(param => this.validateFunctionContext(param));
 
         // Add context as first param if present
         if (context) {
             parameters.push(this.transpileExpression(context));
         }
 
-        params.forEach(param => {
-            parameters.push(this.transpileExpression(param));
-        });
+        if (tsHelper.hasNonTrailingSpread(params)) {
+            // Concatenate all arguments into one table and unpack that
+            parameters.push(`TS_spreadArguments(${this.transpileSpreadSegments(params)})`);
+        } else {
+            params.forEach(param => {
+                parameters.push(this.transpileExpression(param));
+            });
+        }
 
         return parameters.join(",");
     }
 
+    // Split a list containing spread elements into tables to concatenate,
+    // literal segments get an explicit length so nil values are preserved
+    public transpileSpreadSegments(elements: ts.NodeArray<ts.Expression>): string {
+        const segments: string[] = [];
+        let literalSegment: string[] = [];
+
+        const closeLiteralSegment = () => {
+            if (literalSegment.length > 0) {
+                segments.push(`{${literalSegment.join(",")}, n = ${literalSegment.length}}`);
+                literalSegment = [];
+            }
+        };
+
+        elements.forEach(element => {
+            if (ts.isSpreadElement(element) && tsHelper.isSpreadableArrayLiteral(element.expression)) {
+                // Spread array literals are merged into the surrounding literal segment
+                element.expression.elements.forEach(e => literalSegment.push(this.transpileExpression(e)));
+            } else if (ts.isSpreadElement(element)) {
+                closeLiteralSegment();
+                segments.push(this.transpileExpression(element.expression));
+            } else {
+                literalSegment.push(this.transpileExpression(element));
+            }
+        });
+        closeLiteralSegment();
+
+        return segments.join(", ");
+    }
+
+    public transpileUnpack(expression: string): string {
+        return `unpack(${expression})`;
+    }
+
     public transpilePropertyAccessExpression(node: ts.PropertyAccessExpression): string {
         const property = node.name.text;
 
+        // Methods passed as function values keep their receiver
+        if (tsHelper.isMethodReference(node, this.checker)) {
+            const needsBinding = tsHelper.isPassedToNoSelfSlot(node, this.checker);
+            if (needsBinding === undefined) {
+                throw new TranspileError(
+                    `Unable to determine if method reference '${property}' has to be bound to its receiver, `
+                    + `use an arrow function or bind instead.`,
+                    node
+                );
+            } else if (needsBinding) {
+                const receiver = this.transpileExpression(node.expression);
+                return `TS_bindMethod(${receiver},"${property}")`;
+            }
+        }
+
         // Check for primitive types to override
         const type = this.checker.getTypeAtLocation(node.expression);
         switch (type.flags) {
@@ -1050,21 +2022,46 @@ export abstract class LuaTranspiler {
         }
 
         const callPath = this.transpileExpression(node.expression);
-        return `${callPath}.${property}`;
+        return callPath + this.transpileKeyAccess(this.transpilePropertyKey(node.name));
     }
 
     public transpileGetAccessor(node: ts.PropertyAccessExpression): string {
         const name = node.name.escapedText;
         const expression = this.transpileExpression(node.expression);
+        if (tsHelper.isStaticMember(node, this.checker)) {
+            return `${expression}.get__${name}()`;
+        } else if (node.expression.kind === ts.SyntaxKind.SuperKeyword) {
+            return `${expression}.get__${name}(self)`;
+        }
         return `${expression}:get__${name}()`;
     }
 
     public transpileSetAccessor(node: ts.PropertyAccessExpression, value: string): string {
         const name = node.name.escapedText;
         const expression = this.transpileExpression(node.expression);
+        if (tsHelper.isStaticMember(node, this.checker)) {
+            return `${expression}.set__${name}(${value})`;
+        } else if (node.expression.kind === ts.SyntaxKind.SuperKeyword) {
+            return `${expression}.set__${name}(self,${value})`;
+        }
         return `${expression}:set__${name}(${value})`;
     }
 
+    // Super refers to the base class of the lexically enclosing class, not to a field of the instance
+    public transpileSuperExpression(node: ts.SuperExpression): string {
+        const classDeclaration = tsHelper.findFirstNodeAbove(node, ts.isClassLike);
+        return this.transpileBaseClass(classDeclaration, this.classStack[this.classStack.length - 1]);
+    }
+
+    // Arbitrary extends expressions are only evaluated once, the base class is found in __base afterwards
+    public transpileBaseClass(node: ts.ClassLikeDeclaration, className: string): string {
+        const extendsExpression = node && tsHelper.getExtendsExpression(node);
+        if (extendsExpression && ts.isIdentifier(extendsExpression)) {
+            return this.transpileExpression(extendsExpression);
+        }
+        return `${className}.__base`;
+    }
+
     // Transpile a Math._ property
     public transpileMathExpression(identifier: ts.Identifier): string {
         const translation = {
@@ -1141,8 +2138,13 @@ export abstract class LuaTranspiler {
         let result = "";
 
         node.declarationList.declarations.forEach(declaration => {
-            result += this.transpileVariableDeclaration(declaration as ts.VariableDeclaration);
-            result += this.makeExport((declaration.name as ts.Identifier).escapedText, node);
+            // Hoisted expressions are evaluated after the declarations before them, which they may refer to
+            const preludeCount = this.preludes.length;
+            const declarationLua = this.transpileVariableDeclaration(declaration as ts.VariableDeclaration);
+            result += this.preludes.splice(preludeCount).join("") + declarationLua;
+            tsHelper.getBindingIdentifiers(declaration.name).forEach(identifier => {
+                result += this.makeExport(identifier.escapedText, node);
+            });
         });
 
         return result;
@@ -1152,13 +2154,18 @@ export abstract class LuaTranspiler {
         if (ts.isIdentifier(node.name)) {
             // Find variable identifier
             const identifier = node.name;
-            if (node.initializer) {
+            if (node.initializer && ts.isClassExpression(node.initializer)) {
+                // Declare the local first so the class members can refer to it
+                const value = this.transpileExpression(node.initializer);
+                return `local ${identifier.escapedText}\n${this.indent}${identifier.escapedText} = ${value}\n`;
+            } else if (node.initializer) {
+                this.validateFunctionContext(node.initializer);
                 const value = this.transpileExpression(node.initializer);
                 return `local ${identifier.escapedText} = ${value}\n`;
             } else {
                 return `local ${identifier.escapedText} = nil\n`;
             }
-        } else if (ts.isArrayBindingPattern(node.name)) {
+        } else if (ts.isArrayBindingPattern(node.name) && tsHelper.isSimpleArrayBindingPattern(node.name)) {
             // Destructuring type
             const value = this.transpileExpression(node.initializer);
 
@@ -1175,62 +2182,249 @@ export abstract class LuaTranspiler {
             if (tsHelper.isTupleReturnCall(node.initializer, this.checker)) {
                 return `local ${vars}=${value}\n`;
             } else {
-                return `local ${vars}=table.unpack(${value})\n`;
+                return `local ${vars}=${this.transpileUnpack(value)}\n`;
+            }
+        } else if (ts.isArrayBindingPattern(node.name) || ts.isObjectBindingPattern(node.name)) {
+            // Object and nested destructuring
+            let value = this.transpileExpression(node.initializer);
+            if (tsHelper.isTupleReturnCall(node.initializer, this.checker)) {
+                value = `({ ${value} })`;
             }
+            return this.transpileBindingPattern(node.name, value).join("\n" + this.indent) + "\n";
         } else {
+            const name = node.name as ts.Node;
             throw new TranspileError(
-                "Unsupported variable declaration type: " + tsHelper.enumName(node.name.kind, ts.SyntaxKind),
+                "Unsupported variable declaration type: " + tsHelper.enumName(name.kind, ts.SyntaxKind),
                 node
             );
         }
     }
 
-    public transpileFunctionDeclaration(node: ts.FunctionDeclaration): string {
-        // Don't transpile functions without body (overload declarations)
-        if (!node.body) { return ""; }
+    // Lower a (nested) binding pattern to local declarations, returns the lines without indentation
+    public transpileBindingPattern(pattern: ts.BindingPattern, value: string): string[] {
+        const lines: string[] = [];
 
-        let result = "";
-        const identifier = node.name;
-        const methodName = identifier.escapedText;
-        const parameters = node.parameters;
-        const body = node.body;
+        // Store the value in a temporary so it is only evaluated once
+        let source = value;
+        const boundNames = tsHelper.getBindingIdentifiers(pattern).map(identifier => identifier.escapedText);
+        if (!tsHelper.isLuaIdentifier(value) || boundNames.indexOf(value as ts.__String) >= 0) {
+            source = `____destructured${this.genVarCounter}`;
+            this.genVarCounter++;
+            lines.push(`local ${source} = ${value}`);
+        }
 
-        // Build parameter string
-        const paramNames: string[] = [];
+        const excludedKeys: string[] = [];
+        const hasRest = ts.isObjectBindingPattern(pattern)
+            && pattern.elements.some(element => element.dotDotDotToken !== undefined);
+        (pattern.elements as ts.NodeArray<ts.ArrayBindingElement>).forEach((element, index) => {
+            if (ts.isOmittedExpression(element)) {
+                return;
+            }
 
-        let spreadIdentifier = "";
+            let access: string;
+            if (element.dotDotDotToken) {
+                if (ts.isArrayBindingPattern(pattern)) {
+                    throw new TranspileError(`Ellipsis destruction is not allowed.`, element);
+                }
+                access = `TS_objectRest(${source}, {${excludedKeys.map(key => `${key} = true`).join(", ")}})`;
+            } else if (ts.isArrayBindingPattern(pattern)) {
+                access = `${source}[${index + 1}]`;
+            } else {
+                const name = element.propertyName || element.name as ts.Identifier;
+                const key = hasRest ? this.transpileCachedPropertyKey(name, lines) : this.transpilePropertyKey(name);
+                excludedKeys.push(key);
+                access = `${source}${this.transpileKeyAccess(key)}`;
+            }
 
-        // Only push parameter name to paramName array if it isn't a spread parameter
-        for (const param of parameters) {
-            const paramName = (param.name as ts.Identifier).escapedText as string;
+            if (ts.isIdentifier(element.name)) {
+                const name = element.name.escapedText;
+                lines.push(`local ${name} = ${access}`);
+                if (element.initializer) {
+                    lines.push(`if ${name} == nil then ${name} = ${this.transpileExpression(element.initializer)} end`);
+                }
+            } else {
+                // Nested binding pattern
+                if (element.initializer) {
+                    const nested = `____destructured${this.genVarCounter}`;
+                    this.genVarCounter++;
+                    lines.push(`local ${nested} = ${access}`);
+                    const defaultValue = this.transpileExpression(element.initializer);
+                    lines.push(`if ${nested} == nil then ${nested} = ${defaultValue} end`);
+                    access = nested;
+                }
+                lines.push(...this.transpileBindingPattern(element.name, access));
+            }
+        });
 
-            // This parameter is a spread parameter (...param)
-            if (!param.dotDotDotToken) {
-                paramNames.push(paramName);
+        return lines;
+    }
+
+    // Transpile a destructuring assignment: [a, b] = value or ({ a, b } = value)
+    public transpileDestructuringAssignment(node: ts.BinaryExpression): string {
+        if (!tsHelper.isExpressionStatement(node)) {
+            throw new TranspileError("Destructuring assignments can only be used as statements.", node);
+        }
+
+        const value = this.transpileExpression(node.right);
+        const pattern = node.left as ts.ArrayLiteralExpression | ts.ObjectLiteralExpression;
+
+        if (ts.isArrayLiteralExpression(pattern) && tsHelper.isSimpleArrayAssignmentPattern(pattern, this.checker)) {
+            const targets = pattern.elements.map(element => this.transpileExpression(element)).join(",");
+            // Don't unpack TupleReturn decorated functions
+            if (tsHelper.isTupleReturnCall(node.right, this.checker)) {
+                return `${targets}=${value}`;
             } else {
-                spreadIdentifier = paramName;
-                // Push the spread operator into the paramNames array
-                paramNames.push("...");
+                return `${targets}=${this.transpileUnpack(value)}`;
             }
         }
 
-        // Build function header
-        result += this.indent + this.accessPrefix(node) + `function ${methodName}(${paramNames.join(",")})\n`;
+        const source = tsHelper.isTupleReturnCall(node.right, this.checker) ? `({ ${value} })` : value;
 
+        let result = "do\n";
         this.pushIndent();
+        this.transpileAssignmentPattern(pattern, source).forEach(line => result += this.indent + line + "\n");
+        this.popIndent();
+        return result + this.indent + "end";
+    }
+
+    // Lower a (nested) assignment pattern to assignments, returns the lines without indentation
+    public transpileAssignmentPattern(pattern: ts.ArrayLiteralExpression | ts.ObjectLiteralExpression,
+                                      value: string, isTemporary?: boolean): string[] {
+        const lines: string[] = [];
+
+        // Store the value in a temporary so it is only evaluated once
+        let source = value;
+        if (!isTemporary) {
+            source = `____destructured${this.genVarCounter}`;
+            this.genVarCounter++;
+            lines.push(`local ${source} = ${value}`);
+        }
+
+        const assignTarget = (target: ts.Expression, access: string, initializer?: ts.Expression) => {
+            let isTemporaryAccess = false;
+            if (initializer) {
+                const defaulted = `____destructured${this.genVarCounter}`;
+                this.genVarCounter++;
+                lines.push(`local ${defaulted} = ${access}`);
+                lines.push(`if ${defaulted} == nil then ${defaulted} = ${this.transpileExpression(initializer)} end`);
+                access = defaulted;
+                isTemporaryAccess = true;
+            }
+
+            if (ts.isArrayLiteralExpression(target) || ts.isObjectLiteralExpression(target)) {
+                lines.push(...this.transpileAssignmentPattern(target, access, isTemporaryAccess));
+            } else if (tsHelper.hasSetAccessor(target, this.checker)) {
+                lines.push(this.transpileSetAccessor(target as ts.PropertyAccessExpression, access));
+            } else {
+                lines.push(`${this.transpileExpression(target)} = ${access}`);
+            }
+        };
+
+        if (ts.isArrayLiteralExpression(pattern)) {
+            pattern.elements.forEach((element, index) => {
+                if (ts.isOmittedExpression(element)) {
+                    return;
+                } else if (ts.isSpreadElement(element)) {
+                    throw new TranspileError(`Ellipsis destruction is not allowed.`, element);
+                } else if (tsHelper.isDefaultValueAssignment(element)) {
+                    assignTarget(element.left, `${source}[${index + 1}]`, element.right);
+                } else {
+                    assignTarget(element, `${source}[${index + 1}]`);
+                }
+            });
+        } else {
+            const excludedKeys: string[] = [];
+            const hasRest = pattern.properties.some(ts.isSpreadAssignment);
+            pattern.properties.forEach(property => {
+                if (ts.isSpreadAssignment(property)) {
+                    const excluded = excludedKeys.map(excludedKey => `${excludedKey} = true`).join(", ");
+                    assignTarget(property.expression, `TS_objectRest(${source}, {${excluded}})`);
+                    return;
+                }
+
+                const key = hasRest
+                    ? this.transpileCachedPropertyKey(property.name, lines)
+                    : this.transpilePropertyKey(property.name);
+                excludedKeys.push(key);
+                const access = `${source}${this.transpileKeyAccess(key)}`;
+
+                if (ts.isShorthandPropertyAssignment(property)) {
+                    assignTarget(property.name, access, property.objectAssignmentInitializer);
+                } else if (ts.isPropertyAssignment(property)) {
+                    if (tsHelper.isDefaultValueAssignment(property.initializer)) {
+                        assignTarget(property.initializer.left, access, property.initializer.right);
+                    } else {
+                        assignTarget(property.initializer, access);
+                    }
+                } else {
+                    const elementKind = tsHelper.enumName(property.kind, ts.SyntaxKind);
+                    throw new TranspileError(`Unsupported destructuring assignment element: ${elementKind}.`,
+                                             property);
+                }
+            });
+        }
+
+        return lines;
+    }
+
+    // Transpile a property name to a Lua table key expression, i.e. ["name"]
+    public transpilePropertyKey(name: ts.PropertyName): string {
+        if (ts.isIdentifier(name)) {
+            return `["${name.escapedText}"]`;
+        } else if (ts.isComputedPropertyName(name)) {
+            return this.transpileExpression(name);
+        } else {
+            return `[${this.transpileExpression(name)}]`;
+        }
+    }
 
-        // Push spread operator here
-        if (spreadIdentifier !== "") {
-            result += this.indent + `local ${spreadIdentifier} = { ... }\n`;
+    // Transpile a property name to a table key that can be evaluated again, computed keys are stored in a local
+    // added to lines. Object rest patterns read each key twice: for the access and for the excluded keys.
+    public transpileCachedPropertyKey(name: ts.PropertyName, lines: string[]): string {
+        if (!ts.isComputedPropertyName(name)
+            || ts.isStringLiteral(name.expression)
+            || ts.isNumericLiteral(name.expression)) {
+            return this.transpilePropertyKey(name);
         }
+        const keyName = `____key${this.genVarCounter}`;
+        this.genVarCounter++;
+        lines.push(`local ${keyName} = ${this.transpileExpression(name.expression)}`);
+        return `[${keyName}]`;
+    }
+
+    // Transpile a table key expression to a field access, using dot notation where possible
+    public transpileKeyAccess(key: string): string {
+        const match = /^\["(.*)"\]$/.exec(key);
+        return match && tsHelper.isLuaIdentifier(match[1]) ? `.${match[1]}` : key;
+    }
+
+    public transpileFunctionDeclaration(node: ts.FunctionDeclaration): string {
+        // Don't transpile functions without body (overload declarations)
+        if (!node.body) { return ""; }
 
-        result += this.transpileBlock(body);
+        let result = "";
+        const identifier = node.name;
+
+        // Anonymous functions can only occur as export default, assign them to exports directly
+        const methodName = identifier ? identifier.escapedText : "exports.default";
+        const prefix = identifier ? this.accessPrefix(node) : "";
+
+        this.pushIndent();
+        const context = tsHelper.hasSelfContext(node, this.checker) ? "self" : undefined;
+        const [paramNames, parameterInitializers] = this.transpileParameters(node.parameters, context);
+        const bodyResult = parameterInitializers + this.transpileFunctionBody(node);
         this.popIndent();
 
+        // Build function header
+        result += this.indent + prefix + `function ${methodName}(${paramNames.join(",")})\n`;
+        result += bodyResult;
+
         // Close function block
         result += this.indent + "end\n";
 
-        result += this.makeExport(methodName, node);
+        if (identifier) {
+            result += this.makeExport(methodName, node);
+        }
 
         return result;
     }
@@ -1242,58 +2436,123 @@ export abstract class LuaTranspiler {
         let result = "";
         const identifier = node.name as ts.Identifier;
         const methodName = identifier.escapedText;
-        const parameters = node.parameters;
-        const body = node.body;
 
-        // Build parameter string
-        const paramNames: string[] = ["self"];
+        this.pushIndent();
+        const context = tsHelper.hasSelfContext(node, this.checker) ? "self" : undefined;
+        const [paramNames, parameterInitializers] = this.transpileParameters(node.parameters, context);
+        const bodyResult = parameterInitializers + this.transpileFunctionBody(node);
+        this.popIndent();
 
-        let spreadIdentifier = "";
+        // Build function header
+        result += this.indent + `function ${callPath}${methodName}(${paramNames.join(",")})\n`;
+        result += bodyResult;
 
-        // Only push parameter name to paramName array if it isn't a spread parameter
-        for (const param of parameters) {
-            const paramName = (param.name as ts.Identifier).escapedText as string;
+        // Close function block
+        result += this.indent + "end\n";
 
-            // This parameter is a spread parameter (...param)
-            if (!param.dotDotDotToken) {
-                paramNames.push(paramName);
-            } else {
-                spreadIdentifier = paramName;
-                // Push the spread operator into the paramNames array
-                paramNames.push("...");
-            }
+        return result;
+    }
+
+    // Transpile the body of a function-like declaration, generator and async function bodies run inside a coroutine
+    public transpileFunctionBody(node: ts.FunctionLikeDeclaration): string {
+        const isAsync = tsHelper.isAsyncFunction(node);
+        if (isAsync && node.asteriskToken) {
+            throw new TranspileError("Async generators are not supported.", node);
         }
-        // Parameters with default values
-        const defaultValueParams = node.parameters.filter(declaration => declaration.initializer !== undefined);
 
-        // Build function header
-        result += this.indent + `function ${callPath}${methodName}(${paramNames.join(",")})\n`;
+        const wrapper = node.asteriskToken ? "TS_generator" : isAsync ? "TS_async" : undefined;
+        if (!wrapper) {
+            return this.transpileConciseBody(node.body);
+        }
 
+        let result = this.indent + `return ${wrapper}(function()\n`;
         this.pushIndent();
+        result += this.transpileConciseBody(node.body);
+        this.popIndent();
+        return result + this.indent + "end)\n";
+    }
 
-        // Push spread operator here
-        if (spreadIdentifier !== "") {
-            result += this.indent + `local ${spreadIdentifier} = { ... }\n`;
+    // Transpile a function body block, or the return of an expression-bodied arrow function
+    public transpileConciseBody(body: ts.ConciseBody): string {
+        if (ts.isBlock(body)) {
+            return this.transpileBlock(body);
         }
+        const preludeCount = this.preludes.length;
+        const result = this.indent + "return " + this.transpileExpression(body) + "\n";
+        return this.preludes.splice(preludeCount).join("") + result;
+    }
 
-        result += this.transpileParameterDefaultValues(defaultValueParams);
-        result += this.transpileBlock(body);
-        this.popIndent();
+    // Transpile the parameters of a function-like declaration, returns the parameter names and the statements
+    // (default values, rest parameters and destructuring) to put at the start of the function body.
+    public transpileParameters(parameters: ts.NodeArray<ts.ParameterDeclaration>,
+                               context?: string): [string[], string] {
+        const paramNames: string[] = context ? [context] : [];
+        let initializers = "";
 
-        // Close function block
-        result += this.indent + "end\n";
+        for (const param of parameters) {
+            // Skip the this parameter, it only exists for type checking
+            if (ts.isIdentifier(param.name) && param.name.originalKeywordKind === ts.SyntaxKind.ThisKeyword) {
+                continue;
+            }
 
-        return result;
+            let paramName: string;
+            if (ts.isIdentifier(param.name)) {
+                paramName = param.name.escapedText as string;
+            } else {
+                // Destructuring parameters get a temporary name and are unpacked in the body
+                paramName = `____bindingPattern${this.genVarCounter}`;
+                this.genVarCounter++;
+            }
+
+            if (param.dotDotDotToken) {
+                // Push the spread operator into the paramNames array and collect the values in a table
+                paramNames.push("...");
+                initializers += this.indent + `local ${paramName} = { ... }\n`;
+            } else {
+                paramNames.push(paramName);
+            }
+
+            if (param.initializer) {
+                const paramValue = this.transpileExpression(param.initializer);
+                initializers += this.indent + `if ${paramName}==nil then ${paramName}=${paramValue} end\n`;
+            }
+
+            if (!ts.isIdentifier(param.name)) {
+                this.transpileBindingPattern(param.name, paramName).forEach(line => {
+                    initializers += this.indent + line + "\n";
+                });
+            }
+        }
+
+        return [paramNames, initializers];
     }
 
     // Transpile a class declaration
     public transpileClass(node: ts.ClassDeclaration): string {
         if (!node.name) {
+            // Anonymous classes can only occur as export default, assign them to exports directly
+            if (node.modifiers && (ts.getCombinedModifierFlags(node) & ts.ModifierFlags.Default)) {
+                return this.indent + `exports.default = ${this.transpileClassExpression(node)}\n`;
+            }
             throw new TranspileError("Class declaration has no name.", node);
         }
 
-        let className = node.name.escapedText as string;
+        return this.transpileClassBody(node, node.name.escapedText as string);
+    }
+
+    // Transpile a class expression to a function building and returning the class table
+    public transpileClassExpression(node: ts.ClassLikeDeclaration): string {
+        const className = node.name ? node.name.escapedText as string : `____class${this.genVarCounter++}`;
+
+        let result = "(function()\n";
+        this.pushIndent();
+        result += this.transpileClassBody(node, className);
+        result += this.indent + `return ${className}\n`;
+        this.popIndent();
+        return result + this.indent + "end)()";
+    }
 
+    public transpileClassBody(node: ts.ClassLikeDeclaration, className: string): string {
         // Find out if this class is extension of exising class
         const isExtension = tsHelper.isExtensionClass(this.checker.getTypeAtLocation(node), this.checker);
 
@@ -1305,14 +2564,13 @@ export abstract class LuaTranspiler {
             .filter(member => member.initializer);
 
         // Divide properties into static and non-static
-        const isStatic = prop => prop.modifiers && prop.modifiers.some(m => m.kind === ts.SyntaxKind.StaticKeyword);
-        const staticFields = properties.filter(isStatic);
-        const instanceFields = properties.filter(prop => !isStatic(prop));
+        const staticFields = properties.filter(tsHelper.isStatic);
+        const instanceFields = properties.filter(prop => !tsHelper.isStatic(prop));
 
         let result = "";
 
         if (!isExtension) {
-            result += this.transpileClassCreationMethods(node, instanceFields, extendsType);
+            result += this.transpileClassCreationMethods(node, className, extendsType);
         } else {
             // export empty table
             result += this.makeExport(className, node, true);
@@ -1323,9 +2581,12 @@ export abstract class LuaTranspiler {
             className = extendsType.symbol.escapedName as string;
         }
 
+        this.classStack.push(className);
+
         // Add static declarations
         for (const field of staticFields) {
             const fieldName = (field.name as ts.Identifier).escapedText;
+            this.validateFunctionContext(field.initializer);
             const value = this.transpileExpression(field.initializer);
             result += this.indent + `${className}.${fieldName} = ${value}\n`;
         }
@@ -1334,11 +2595,20 @@ export abstract class LuaTranspiler {
         const constructor = node.members.filter(ts.isConstructorDeclaration)[0];
         if (constructor) {
             // Add constructor plus initialisation of instance fields
-            result += this.transpileConstructor(constructor, className);
+            result += this.transpileConstructor(constructor, className, instanceFields);
+        } else if (!isExtension && extendsType) {
+            // Derived classes without constructor pass all arguments to the base constructor
+            const baseName = this.transpileBaseClass(node, className);
+            result += this.indent + `function ${className}.constructor(self,...)\n`;
+            this.pushIndent();
+            result += this.indent + `${baseName}.constructor(self,...)\n`;
+            result += this.transpileFieldInitializers([], instanceFields);
+            this.popIndent();
+            result += this.indent + "end\n";
         } else if (!isExtension) {
             // Generate a constructor if none was defined
             result += this.transpileConstructor(ts.createConstructor([], [], [], ts.createBlock([], true)),
-                                                className);
+                                                className, instanceFields);
         }
 
         // Transpile get accessors
@@ -1356,45 +2626,52 @@ export abstract class LuaTranspiler {
             result += this.transpileMethodDeclaration(method, `${className}.`);
         });
 
+        this.classStack.pop();
         return result;
     }
 
-    public transpileClassCreationMethods(node: ts.ClassDeclaration, instanceFields: ts.PropertyDeclaration[],
+    public transpileClassCreationMethods(node: ts.ClassLikeDeclaration, className: string,
                                          extendsType: ts.Type): string {
-        const className = node.name.escapedText as string;
+        // Class expressions build a fresh local table every time they are evaluated
+        const isExpression = !ts.isClassDeclaration(node) || !node.name;
+        const prefix = isExpression ? "local " : this.accessPrefix(node);
 
         const noClassOr = extendsType && tsHelper.hasCustomDecorator(extendsType, this.checker, "!NoClassOr");
 
         let result = "";
 
         // Write class declaration
-        const classOr = noClassOr ? "" : `${className} or `;
+        const classOr = noClassOr || isExpression ? "" : `${className} or `;
+        let baseName: string;
         if (!extendsType) {
-            result += this.indent + this.accessPrefix(node) + `${className} = ${classOr}{}\n`;
-            result += this.makeExport(className, node);
+            result += this.indent + prefix + `${className} = ${classOr}{}\n`;
         } else {
-            const baseName = extendsType.symbol.escapedName;
-            result += this.indent + this.accessPrefix(node) + `${className} = ${classOr}${baseName}.new()\n`;
+            const extendsExpression = tsHelper.getExtendsExpression(node);
+            if (ts.isIdentifier(extendsExpression)) {
+                baseName = this.transpileExpression(extendsExpression);
+                result += this.indent + prefix + `${className} = ${classOr}${baseName}.new()\n`;
+            } else {
+                // The base class is the metatable of the table created by its new
+                const base = this.transpileExpression(extendsExpression);
+                result += this.indent + prefix + `${className} = ${classOr}(${base}).new()\n`;
+                baseName = `getmetatable(${className})`;
+            }
+        }
+        if (!isExpression) {
             result += this.makeExport(className, node);
         }
-        result += this.indent + `${className}.__index = ${className}\n`;
+        if (this.options.metatableAccessors && tsHelper.hasAccessors(node, extendsType, this.checker)) {
+            // Dispatch property access to the accessors so untyped and Lua code sees them too
+            result += this.indent + `TS_classAccessors(${className})\n`;
+        } else {
+            result += this.indent + `${className}.__index = ${className}\n`;
+        }
         if (extendsType) {
-            const baseName = extendsType.symbol.escapedName;
             result += this.indent + `${className}.__base = ${baseName}\n`;
         }
         result += this.indent + `function ${className}.new(construct, ...)\n`;
         result += this.indent + `    local instance = setmetatable({}, ${className})\n`;
 
-        for (const f of instanceFields) {
-            // Get identifier
-            const fieldIdentifier = f.name as ts.Identifier;
-            const fieldName = fieldIdentifier.escapedText;
-
-            const value = this.transpileExpression(f.initializer);
-
-            result += this.indent + `    instance.${fieldName} = ${value}\n`;
-        }
-
         result += this.indent + `    if construct and ${className}.constructor then `
                       + `${className}.constructor(instance, ...) end\n`;
 
@@ -1406,8 +2683,9 @@ export abstract class LuaTranspiler {
 
     public transpileGetAccessorDeclaration(getAccessor: ts.GetAccessorDeclaration, className: string): string {
         const name = (getAccessor.name as ts.Identifier).escapedText;
+        const context = tsHelper.isStatic(getAccessor) ? "" : "self";
 
-        let result = this.indent + `function ${className}.get__${name}(self)\n`;
+        let result = this.indent + `function ${className}.get__${name}(${context})\n`;
 
         this.pushIndent();
         result += this.transpileBlock(getAccessor.body);
@@ -1421,54 +2699,69 @@ export abstract class LuaTranspiler {
     public transpileSetAccessorDeclaration(setAccessor: ts.SetAccessorDeclaration, className: string): string {
         const name = (setAccessor.name as ts.Identifier).escapedText;
 
-        const paramNames: string[] = ["self"];
-        setAccessor.parameters.forEach(param => {
-            paramNames.push((param.name as ts.Identifier).escapedText as string);
-        });
-
-        let result = this.indent + `function ${className}.set__${name}(${paramNames.join(",")})\n`;
-
         this.pushIndent();
-        result += this.transpileBlock(setAccessor.body);
+        const context = tsHelper.isStatic(setAccessor) ? undefined : "self";
+        const [paramNames, parameterInitializers] = this.transpileParameters(setAccessor.parameters, context);
+        const bodyResult = parameterInitializers + this.transpileBlock(setAccessor.body);
         this.popIndent();
 
+        let result = this.indent + `function ${className}.set__${name}(${paramNames.join(",")})\n`;
+        result += bodyResult;
         result += this.indent + `end\n`;
 
         return result;
     }
 
-    public transpileConstructor(node: ts.ConstructorDeclaration,
-                                className: string): string {
-        const extraInstanceFields = [];
-
-        const parameters = ["self"];
-        node.parameters.forEach(param => {
-            // If param has decorators, add extra instance field
-            if (param.modifiers !== undefined) {
-                extraInstanceFields.push((param.name as ts.Identifier).escapedText as string);
-            }
-            // Add to parameter list
-            parameters.push((param.name as ts.Identifier).escapedText as string);
-        });
-
-        let result = this.indent + `function ${className}.constructor(${parameters.join(",")})\n`;
+    public transpileConstructor(node: ts.ConstructorDeclaration, className: string,
+                                instanceFields: ts.PropertyDeclaration[]): string {
+        this.pushIndent();
+        const [parameters, parameterInitializers] = this.transpileParameters(node.parameters, "self");
+        let bodyResult = parameterInitializers;
 
-        // Add in instance field declarations
-        for (const f of extraInstanceFields) {
-            result += this.indent + `    self.${f} = ${f}\n`;
-        }
+        // Fields are initialized right after the base constructor returned
+        const statements = node.body.statements;
+        const superCallIndex = statements.map(statement => ts.isExpressionStatement(statement)
+            && ts.isCallExpression(statement.expression)
+            && statement.expression.expression.kind === ts.SyntaxKind.SuperKeyword).indexOf(true);
 
         // Transpile constructor body
-        this.pushIndent();
         this.classStack.push(className);
-        result += this.transpileBlock(node.body);
+        statements.slice(0, superCallIndex + 1).forEach(statement => {
+            bodyResult += this.transpileNode(statement);
+        });
+        bodyResult += this.transpileFieldInitializers(node.parameters, instanceFields);
+        statements.slice(superCallIndex + 1).forEach(statement => {
+            bodyResult += this.transpileNode(statement);
+        });
         this.classStack.pop();
         this.popIndent();
 
+        const result = this.indent + `function ${className}.constructor(${parameters.join(",")})\n` + bodyResult;
         return result + this.indent + "end\n";
     }
 
+    // Parameter properties are assigned before the field initializers, like TypeScript does
+    public transpileFieldInitializers(parameters: ReadonlyArray<ts.ParameterDeclaration>,
+                                      instanceFields: ts.PropertyDeclaration[]): string {
+        let result = "";
+        parameters.filter(param => param.modifiers !== undefined).forEach(param => {
+            const paramName = (param.name as ts.Identifier).escapedText;
+            result += this.indent + `self.${paramName} = ${paramName}\n`;
+        });
+        instanceFields.forEach(field => {
+            const fieldName = (field.name as ts.Identifier).escapedText;
+            this.validateFunctionContext(field.initializer);
+            const value = this.transpileExpression(field.initializer);
+            result += this.indent + `self.${fieldName} = ${value}\n`;
+        });
+        return result;
+    }
+
     public transpileArrayLiteral(node: ts.ArrayLiteralExpression): string {
+        if (tsHelper.hasNonTrailingSpread(node.elements)) {
+            return `TS_spreadArray(${this.transpileSpreadSegments(node.elements)})`;
+        }
+
         const values: string[] = [];
 
         node.elements.forEach(child => {
@@ -1479,60 +2772,113 @@ export abstract class LuaTranspiler {
     }
 
     public transpileObjectLiteral(node: ts.ObjectLiteralExpression): string {
-        const properties: string[] = [];
-        // Add all property assignments
+        // Tables and spread expressions that are merged into one object
+        const segments: string[] = [];
+        let properties: string[] = [];
+
+        // Accessors are grouped per key, i.e. v = {get = ..., set = ...}
+        const accessorKeys: string[] = [];
+        const accessors: {[key: string]: string[]} = {};
+
         node.properties.forEach(element => {
-            let name = "";
-            if (ts.isIdentifier(element.name)) {
-                name = element.name.escapedText as string;
-            } else if (ts.isComputedPropertyName(element.name)) {
-                name = this.transpileExpression(element.name);
-            } else {
-                name = `[${this.transpileExpression(element.name)}]`;
+            if (ts.isSpreadAssignment(element)) {
+                // Always start with a fresh table so spread objects are copied and not modified
+                if (properties.length > 0 || segments.length === 0) {
+                    segments.push("{" + properties.join(",") + "}");
+                    properties = [];
+                }
+                segments.push(this.transpileExpression(element.expression));
+                return;
             }
 
+            const name = this.transpileObjectLiteralKey(element.name);
             if (ts.isPropertyAssignment(element)) {
+                this.validateFunctionContext(element.initializer);
                 const expression = this.transpileExpression(element.initializer);
                 properties.push(`${name} = ${expression}`);
+            } else if (ts.isShorthandPropertyAssignment(element)) {
+                properties.push(`${name} = ${this.transpileExpression(element.name)}`);
+            } else if (ts.isMethodDeclaration(element)) {
+                properties.push(`${name} = ${this.transpileObjectLiteralMethod(element)}`);
+            } else if (ts.isGetAccessor(element) || ts.isSetAccessor(element)) {
+                if (!accessors[name]) {
+                    accessorKeys.push(name);
+                    accessors[name] = [];
+                }
+                const kind = ts.isGetAccessor(element) ? "get" : "set";
+                accessors[name].push(`${kind} = ${this.transpileObjectLiteralMethod(element)}`);
             } else {
-                const elementKind = tsHelper.enumName(element.kind, ts.SyntaxKind);
+                const elementKind = tsHelper.enumName((element as ts.Node).kind, ts.SyntaxKind);
                 throw new TranspileError(`Encountered unsupported object literal element: ${elementKind}.`, node);
             }
         });
 
-        return "{" + properties.join(",") + "}";
+        let result: string;
+        if (segments.length === 0) {
+            result = "{" + properties.join(",") + "}";
+        } else {
+            if (properties.length > 0) {
+                segments.push("{" + properties.join(",") + "}");
+            }
+            result = `TS_objectAssign(${segments.join(", ")})`;
+        }
+
+        if (accessorKeys.length > 0) {
+            const accessorTable = accessorKeys.map(key => `${key} = {${accessors[key].join(", ")}}`).join(",");
+            result = `TS_defineAccessors(${result}, {${accessorTable}})`;
+        }
+
+        return result;
     }
 
-    public transpileFunctionExpression(node: ts.ArrowFunction): string {
-        // Build parameter string
-        const paramNames: string[] = [];
-        node.parameters.forEach(param => {
-            paramNames.push((param.name as ts.Identifier).escapedText as string);
-        });
+    // Transpile a property name to a table constructor key, i.e. name or ["name"]
+    public transpileObjectLiteralKey(name: ts.PropertyName): string {
+        if (ts.isIdentifier(name) && tsHelper.isLuaIdentifier(name.escapedText as string)) {
+            return name.escapedText as string;
+        }
+        return this.transpilePropertyKey(name);
+    }
+
+    // Transpile a method or accessor in an object literal to a function taking self
+    public transpileObjectLiteralMethod(node: ts.MethodDeclaration | ts.AccessorDeclaration): string {
+        this.pushIndent();
+        // Accessors are always called with the object as self
+        const context = ts.isAccessor(node) || tsHelper.hasSelfContext(node, this.checker) ? "self" : undefined;
+        const [paramNames, parameterInitializers] = this.transpileParameters(node.parameters, context);
+        const body = parameterInitializers + this.transpileFunctionBody(node);
+        this.popIndent();
+
+        return `function(${paramNames.join(",")})\n` + body + this.indent + "end";
+    }
 
-        const defaultValueParams = node.parameters.filter(declaration => declaration.initializer !== undefined);
+    public transpileFunctionExpression(node: ts.ArrowFunction): string {
+        this.pushIndent();
+        const context = tsHelper.hasSelfContext(node, this.checker) ? "self" : undefined;
+        const [paramNames, parameterInitializers] = this.transpileParameters(node.parameters, context);
+        this.popIndent();
 
-        if (ts.isBlock(node.body) || defaultValueParams.length > 0) {
+        if (ts.isBlock(node.body) || parameterInitializers !== "" || tsHelper.isAsyncFunction(node)) {
             let result = `function(${paramNames.join(",")})\n`;
             this.pushIndent();
-            result += this.transpileParameterDefaultValues(defaultValueParams);
-            result += this.transpileBlock(node.body as ts.Block);
+            result += parameterInitializers + this.transpileFunctionBody(node);
             this.popIndent();
             return result + this.indent + "end\n";
-        } else {
-            return `function(${paramNames.join(",")}) return ` + this.transpileExpression(node.body) + " end";
         }
-    }
 
-    public transpileParameterDefaultValues(params: ts.ParameterDeclaration[]): string {
-        let result = "";
-
-        params.filter(declaration => declaration.initializer !== undefined).forEach(declaration => {
-            const paramName = (declaration.name as ts.Identifier).escapedText;
-            const paramValue = this.transpileExpression(declaration.initializer);
-            result += this.indent + `if ${paramName}==nil then ${paramName}=${paramValue} end\n`;
-        });
-
-        return result;
+        // Statements hoisted out of the returned expression need a multi-line function
+        this.pushIndent();
+        const preludeCount = this.preludes.length;
+        this.validateFunctionContext(node.body);
+        const body = this.transpileExpression(node.body);
+        const preludes = this.preludes.splice(preludeCount).join("");
+        const bodyIndent = this.indent;
+        this.popIndent();
+        if (preludes === "") {
+            return `function(${paramNames.join(",")}) return ${body} end`;
+        }
+        return `function(${paramNames.join(",")})\n`
+            + preludes
+            + bodyIndent + `return ${body}\n`
+            + this.indent + "end\n";
     }
 }
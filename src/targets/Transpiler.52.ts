@@ -1,3 +1,4 @@
+import { Breakable, SwitchClauseGroup } from "../Transpiler";
 import { TSHelper as tsHelper } from "../TSHelper";
 import { LuaTranspiler51 } from "./Transpiler.51";
 
@@ -5,27 +6,92 @@ import * as ts from "typescript";
 
 export class LuaTranspiler52 extends LuaTranspiler51 {
     /** @override */
-    public transpileLoopBody(
-        node: ts.WhileStatement
-            | ts.DoStatement
-            | ts.ForStatement
-            | ts.ForOfStatement
-            | ts.ForInStatement
-    ): string {
-        this.loopStack.push(this.genVarCounter);
-        this.genVarCounter++;
-        let result = this.indent + "do\n";
-        this.pushIndent();
-        result += this.transpileStatement(node.statement);
-        this.popIndent();
-        result += this.indent + "end\n";
-        result += this.indent + `::__continue${this.loopStack.pop()}::\n`;
+    public transpileContinueLabel(loopId: number): string {
+        return this.indent + `::__continue${loopId}::\n`;
+    }
+
+    /** @override */
+    public transpileContinue(node: ts.ContinueStatement, from: ts.Node = node): string {
+        const target = this.findBreakable(node.label, true);
+        const tryStatement = target && this.findJumpedOutTry(from, target);
+        if (tryStatement) {
+            return this.transpileIteratorCloses(from, tryStatement, false)
+                + this.transpileTryJump(tryStatement, node, target);
+        }
+        const closes = target ? this.transpileIteratorCloses(from, target.node, false) : "";
+        const loopId = target ? target.loopId : this.loopStack[this.loopStack.length - 1];
+        return closes + this.indent + `goto __continue${loopId}\n`;
+    }
+
+    /** @override */
+    public transpileBreakOutOf(target: Breakable, node: ts.BreakStatement): string {
+        return this.indent + `goto ${this.getBreakLabel(target)}\n`;
+    }
+
+    // Label placed after the statement to break out of it with goto
+    public getBreakLabel(target: Breakable): string {
+        if (!target.breakLabel) {
+            target.breakLabel = `__break${this.genVarCounter}`;
+            this.genVarCounter++;
+        }
+        return target.breakLabel;
+    }
+
+    /** @override */
+    public isSwitchLuaLoop(hasFallthrough: boolean, hasInnerBreaks: boolean): boolean {
+        return false;
+    }
+
+    /** @override */
+    public transpileSwitchFallthrough(groups: SwitchClauseGroup[],
+                                      switchName: string,
+                                      switchId: number,
+                                      breakable: Breakable): string {
+        const caseLabel = (index: number) => `__switch${switchId}_case${index}`;
+
+        // Jump to the group to start at, groups fall through into the next by running into its label
+        let result = "";
+        let keyword = "if";
+        groups.forEach((group, index) => {
+            if (group.cases.length > 0) {
+                result += this.indent + `${keyword} ${this.transpileSwitchCondition(group, switchName)} then\n`;
+                result += this.indent + `    goto ${caseLabel(index)}\n`;
+                keyword = "elseif";
+            }
+        });
+        if (keyword !== "if") {
+            result += this.indent + "end\n";
+        }
+        const defaultIndex = groups.map(group => group.isDefault).indexOf(true);
+        const noMatchLabel = defaultIndex !== -1 ? caseLabel(defaultIndex) : this.getBreakLabel(breakable);
+        result += this.indent + `goto ${noMatchLabel}\n`;
+
+        groups.forEach((group, index) => {
+            result += this.indent + `::${caseLabel(index)}::\n`;
+            result += this.indent + "do\n";
+            result += this.transpileSwitchClauseStatements(group.statements, []);
+            result += this.indent + "end\n";
+        });
         return result;
     }
 
     /** @override */
-    public transpileContinue(node: ts.ContinueStatement): string {
-        return this.indent + `goto __continue${this.loopStack[this.loopStack.length - 1]}\n`;
+    public transpileLabeledBlock(statement: ts.Statement, labels: string[]): string {
+        const breakable: Breakable = { node: statement, labels, isLuaLoop: false, brokenOutOf: [] };
+        this.breakableStack.push(breakable);
+        const result = this.transpileNode(statement);
+        this.breakableStack.pop();
+        return this.transpileBreakableEnd(breakable, result);
+    }
+
+    /** @override */
+    public validateTrySuspension(node: ts.TryStatement): void {
+        // Lua 5.2 and LuaJIT can yield across pcall
+    }
+
+    /** @override */
+    public transpileUnpack(expression: string): string {
+        return `table.unpack(${expression})`;
     }
 
     /** @override */
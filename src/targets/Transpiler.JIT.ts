@@ -4,6 +4,11 @@ import { LuaTranspiler52 } from "./Transpiler.52";
 import * as ts from "typescript";
 
 export class LuaTranspilerJIT extends LuaTranspiler52 {
+    /** @override */
+    public transpileUnpack(expression: string): string {
+        return `unpack(${expression})`;
+    }
+
     /** @override */
     public transpileUnaryBitOperation(node: ts.PrefixUnaryExpression, operand: string): string {
         switch (node.operator) {
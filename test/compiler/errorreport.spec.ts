@@ -9,9 +9,7 @@ export class CompilerErrorReportTests {
     private originalStdOut: any;
     private originalProcessExit: any;
 
-    @TestCase("Encountered error parsing file: Default Imports are not supported, please use named imports instead!\n",
-              "default_import.ts")
-    @TestCase("Encountered error parsing file: Unsupported expression kind: Block\n", "invalid_syntax.ts")
+    @TestCase("Encountered error parsing file: Unsupported expression kind: EmptyStatement\n", "invalid_syntax.ts")
     @Test("Compile project")
     public compileProject(errorMsg: string, ...fileNames: string[]) {
         fileNames = fileNames.map((file) => path.resolve(__dirname, "testfiles", file));
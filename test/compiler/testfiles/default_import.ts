@@ -1 +0,0 @@
-import Test from "./default_export";
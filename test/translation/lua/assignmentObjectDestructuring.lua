@@ -0,0 +1,7 @@
+local x = point.x
+local renamed = point.y
+local z = point.z
+if z == nil then z = 3 end
+local ____destructured0 = point.nested
+local w = ____destructured0.w
+local rest = TS_objectRest(point, {["x"] = true, ["y"] = true, ["z"] = true, ["nested"] = true})
@@ -1,10 +1,8 @@
-local i = 0
-while(i<10) do
+for i = 0, 9 do
     do
         if i<5 then
             goto __continue0
         end
     end
     ::__continue0::
-    i=i+1
 end
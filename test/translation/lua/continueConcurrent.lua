@@ -1,5 +1,4 @@
-local i = 0
-while(i<10) do
+for i = 0, 9 do
     do
         if i<5 then
             goto __continue0
@@ -9,5 +8,4 @@ while(i<10) do
         end
     end
     ::__continue0::
-    i=i+1
 end
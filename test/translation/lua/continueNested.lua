@@ -1,20 +1,16 @@
-local i = 0
-while(i<5) do
+for i = 0, 4 do
     do
         if (i%2)==0 then
             goto __continue0
         end
-        local j = 0
-        while(j<2) do
+        for j = 0, 1 do
             do
                 if j==1 then
                     goto __continue1
                 end
             end
             ::__continue1::
-            j=j+1
         end
     end
     ::__continue0::
-    i=i+1
 end
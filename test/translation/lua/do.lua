@@ -2,7 +2,7 @@ local e = 10
 
 repeat
     do
-        e=e-1
+        e = e-1
     end
     ::__continue0::
 until not (e>0)
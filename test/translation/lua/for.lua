@@ -1,7 +1,5 @@
-local i = 1
-while(i<=100) do
+for i = 1, 100 do
     do
     end
     ::__continue0::
-    i=i+1
 end
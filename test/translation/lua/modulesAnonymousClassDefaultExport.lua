@@ -0,0 +1,16 @@
+local exports = exports or {}
+exports.default = (function()
+    local ____class0 = {}
+    ____class0.__index = ____class0
+    function ____class0.new(construct, ...)
+        local instance = setmetatable({}, ____class0)
+        if construct and ____class0.constructor then ____class0.constructor(instance, ...) end
+        return instance
+    end
+    function ____class0.constructor(self)
+    end
+    function ____class0.method(self)
+    end
+    return ____class0
+end)()
+return exports
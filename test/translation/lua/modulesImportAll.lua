@@ -1 +1,2 @@
 local Test = require("test")
+local x = Test
@@ -0,0 +1,2 @@
+local TestClass = require("test").default
+local x = TestClass
@@ -1,2 +1,3 @@
 local test0 = require("test")
 local TestClass = test0.TestClass
+local x = TestClass
@@ -1,2 +1,3 @@
 local test0 = require("test")
 local RenamedClass = test0.TestClass
+local x = RenamedClass
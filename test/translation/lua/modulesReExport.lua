@@ -0,0 +1,8 @@
+local exports = exports or {}
+local test0 = require("test")
+exports.TestClass = test0.TestClass
+local test21 = require("test2")
+for ____key, ____value in pairs(test21) do
+    if ____key ~= "default" and exports[____key] == nil then exports[____key] = ____value end
+end
+return exports
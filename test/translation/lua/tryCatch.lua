@@ -1,8 +1,15 @@
-xpcall(function()
-    local a = 42
+do
+    local ____try0, ____result0, ____value0 = pcall(function()
+        local a = 42
 
-end,
-function(er)
-    local b = "fail"
+    end)
+    if not ____try0 then
+        ____try0, ____result0, ____value0 = pcall(function(er)
+            local b = "fail"
 
-end)
+        end, ____result0)
+    end
+    if not ____try0 then
+        error(____result0, 0)
+    end
+end
@@ -1,7 +1,13 @@
-xpcall(function()
-    local a = 42
+do
+    local ____try0, ____result0, ____value0 = pcall(function()
+        local a = 42
 
-end,
-function(e)
-end)
-local b = "finally"
+    end)
+    do
+        local b = "finally"
+
+    end
+    if not ____try0 then
+        error(____result0, 0)
+    end
+end
@@ -2,7 +2,7 @@ local d = 10
 
 while d>0 do
     do
-        d=d-1
+        d = d-1
     end
     ::__continue0::
 end
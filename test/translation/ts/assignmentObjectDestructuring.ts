@@ -0,0 +1,3 @@
+declare const point: { x: number, y: number, z?: number, nested: { w: number } };
+
+const { x, y: renamed, z = 3, nested: { w }, ...rest } = point;
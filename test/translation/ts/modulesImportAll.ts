@@ -1 +1,2 @@
 import * as Test from "test"
+let x = Test;
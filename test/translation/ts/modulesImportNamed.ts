@@ -1 +1,2 @@
 import {TestClass} from "test"
+let x = TestClass;
@@ -1 +1,2 @@
 import {TestClass as RenamedClass} from "test"
+let x = RenamedClass;
@@ -0,0 +1,2 @@
+export { TestClass } from "test";
+export * from "test2";
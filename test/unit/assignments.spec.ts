@@ -74,6 +74,64 @@ export class AssignmentTests {
             .toThrowError(Error, "Ellipsis destruction is not allowed.");
     }
 
+    @TestCase("const { x, y } = point; return x + y;", 3)
+    @TestCase("const { x: a, y: b } = point; return a * 10 + b;", 12)
+    @TestCase("const { w = 5 } = point as any; return w;", 5)
+    @TestCase("const { x = 5 } = point; return x;", 1)
+    @TestCase("const { nested: { z } } = point; return z;", 3)
+    @TestCase("const { nested: { a = 4 } = {} } = {} as any; return a;", 4)
+    @TestCase("const { list: [first, second] } = point; return first + second;", 15)
+    @TestCase(`const { ["x"]: a, "y": b } = point; return a + b;`, 3)
+    @TestCase("const { x, ...rest } = point; return rest.y + rest.nested.z;", 5)
+    @TestCase("const { x, ...rest } = point; return rest.x;", null)
+    @TestCase("const { [k()]: a, ...rest } = point; return `${calls},${a},${rest.x},${rest.y}`;", "1,1,nil,2")
+    @TestCase("let a, rest; ({ [k()]: a, ...rest } = point); return `${calls},${a},${rest.x},${rest.y}`;",
+              "1,1,nil,2")
+    @TestCase("const [{ x }, { y }] = [point, point]; return x + y;", 3)
+    @TestCase("const [a = 4, b = 5] = [1]; return a * 10 + b;", 15)
+    @TestCase("let x, y; ({ x, y } = point); return x + y;", 3)
+    @TestCase("let a, b; ({ x: a, nested: { z: b } } = point); return a * 10 + b;", 13)
+    @TestCase("let a, b; ({ a = 6, b = 7 } = { b: 1 } as any); return a * 10 + b;", 61)
+    @TestCase("let x, rest; ({ x, ...rest } = point); return rest.y;", 2)
+    @TestCase("let a, b; [a, b] = [1, 2]; return a * 10 + b;", 12)
+    @TestCase("let a, b; [a, [b] = [4]] = [1]; return a * 10 + b;", 14)
+    @TestCase("let obj = { a: 0 }; ({ x: obj.a } = point); return obj.a;", 1)
+    @Test("Object destructuring")
+    public objectDestructuring(code: string, expected: any) {
+        const lua = util.transpileString(
+            `const point = { x: 1, y: 2, nested: { z: 3 }, list: [7, 8] };
+            let calls = 0;
+            const k = () => { calls++; return "x"; };
+            ${code}`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(expected);
+    }
+
+    @Test("Object destructuring evaluates initializer once")
+    public objectDestructuringEvaluatesOnce() {
+        const lua = util.transpileString(
+            `let calls = 0;
+            function getPoint() { calls++; return { x: 1, y: 2 }; }
+            const { x, y } = getPoint();
+            let a, b;
+            ({ x: a, y: b } = getPoint());
+            return calls;`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(2);
+    }
+
+    @Test("Destructuring assignment in expression")
+    public destructuringAssignmentInExpression() {
+        Expect(() => util.transpileString("let a; const b = ({ a } = { a: 1 });"))
+            .toThrowError(Error, "Destructuring assignments can only be used as statements.");
+    }
+
     @Test("TupleReturn assignment")
     public tupleReturnFunction() {
         const code = `/** !TupleReturn */\n`
@@ -0,0 +1,166 @@
+import { Expect, Test, TestCase } from "alsatian";
+import { LuaTarget } from "../../src/Transpiler";
+import * as util from "../src/util";
+
+// Collects promise jobs so they only run when the test calls flush()
+const deferredScheduler =
+    `declare let TS_scheduleMicrotasks: (run: () => void) => void;
+    let pending: () => void;
+    TS_scheduleMicrotasks = run => { pending = run; };
+    const flush = () => { if (pending) { pending(); } };
+    const log: string[] = [];`;
+
+export class AsyncTests {
+    @TestCase("async function f(x: number) { return x * 2; }")
+    @TestCase("const f = async function(x: number) { return x * 2; };")
+    @TestCase("const f = async (x: number) => x * 2;")
+    @TestCase("const f = async (x: number = 0) => x * 2;")
+    @TestCase("class A { async g(x: number) { return x * 2; } } const f = (x: number) => new A().g(x);")
+    @TestCase("const o = { async g(x: number) { return x * 2; } }; const f = (x: number) => o.g(x);")
+    @Test("async function returns promise")
+    public asyncReturnsPromise(declaration: string) {
+        const lua = util.transpileString(
+            `${deferredScheduler}
+            ${declaration}
+            f(21).then(v => log.push("value " + v));
+            flush();
+            return log.join(",");`
+        );
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("value 42");
+    }
+
+    @Test("async function runs synchronously until first await")
+    public asyncOrder() {
+        const lua = util.transpileString(
+            `${deferredScheduler}
+            async function f() {
+                log.push("start");
+                await undefined;
+                log.push("end");
+            }
+            f();
+            log.push("sync");
+            flush();
+            return log.join(",");`
+        );
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("start,sync,end");
+    }
+
+    @Test("await resumes on settlement")
+    public awaitResumes() {
+        const lua = util.transpileString(
+            `${deferredScheduler}
+            let resolveValue: (v: number) => void;
+            const value = new Promise<number>(resolve => { resolveValue = resolve; });
+            async function f() {
+                const a = await value;
+                const b = await Promise.resolve(a + 1);
+                return a + b;
+            }
+            f().then(v => log.push("result " + v));
+            flush();
+            log.push("waiting");
+            resolveValue(1);
+            flush();
+            return log.join(",");`
+        );
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("waiting,result 3");
+    }
+
+    @Test("await rejected promise throws")
+    public awaitRejected() {
+        const lua = util.transpileString(
+            `${deferredScheduler}
+            async function f() {
+                try {
+                    await Promise.reject("bad");
+                } catch (e) {
+                    log.push("caught " + e);
+                }
+            }
+            f();
+            flush();
+            return log.join(",");`
+        );
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("caught bad");
+    }
+
+    @Test("async function throw rejects")
+    public asyncThrow() {
+        const lua = util.transpileString(
+            `${deferredScheduler}
+            async function f() {
+                await undefined;
+                throw "bad";
+            }
+            f().catch(e => log.push("rejected"));
+            flush();
+            return log.join(",");`
+        );
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("rejected");
+    }
+
+    @Test("async functions awaiting each other")
+    public asyncNested() {
+        const lua = util.transpileString(
+            `${deferredScheduler}
+            async function inner(x: number) {
+                await undefined;
+                return x + 1;
+            }
+            async function outer() {
+                let total = 0;
+                for (const x of [1, 2, 3]) {
+                    total += await inner(x);
+                }
+                return total;
+            }
+            outer().then(v => log.push("total " + v));
+            flush();
+            return log.join(",");`
+        );
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("total 9");
+    }
+
+    @Test("async generator error")
+    public asyncGenerator() {
+        Expect(() => util.transpileString(`async function* f() { yield 1; }`))
+            .toThrowError(Error, "Async generators are not supported.");
+    }
+
+    @Test("async function completes under the default scheduler")
+    public asyncDefaultScheduler() {
+        const lua = util.transpileString(
+            `const log: string[] = [];
+            async function delay(x: number) { return x; }
+            async function run() {
+                log.push("start");
+                const a = await delay(1);
+                const b = await delay(2);
+                log.push("done " + (a + b));
+            }
+            run().then(() => log.push("resolved"));
+            log.push("sync");`,
+            { luaTarget: LuaTarget.Lua53, dontRequireLuaLib: false }
+        );
+        const result = util.executeLua(
+            `package.loaded["typescript_lualib"] = true
+            ${lua}
+            return table.concat(log, ",")`
+        );
+
+        Expect(result).toBe("start,sync,done 3,resolved");
+    }
+}
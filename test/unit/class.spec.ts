@@ -1,6 +1,7 @@
 import { Expect, Test, TestCase } from "alsatian";
 
 import * as ts from "typescript";
+import { LuaTarget } from "../../src/Transpiler";
 import * as util from "../src/util";
 
 export class ClassTests {
@@ -292,6 +293,443 @@ export class ClassTests {
         Expect(result).toBe(9);
     }
 
+    @Test("Static method call")
+    public staticMethodCall() {
+        const lua = util.transpileString(
+            `class a {
+                static add(x: number, y: number) { return x + y; }
+            }
+            return a.add(1, 2);`
+        );
+
+        Expect(lua).toContain("function a.add(x,y)");
+        Expect(lua).toContain("return a.add(1,2)");
+    }
+
+    @Test("Static method as value")
+    public staticMethodAsValue() {
+        const lua = util.transpileString(
+            `class a {
+                static value = 3;
+                static add(x: number) { return this.value + x; }
+            }
+            const add = a.add;
+            return add(4);`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(7);
+    }
+
+    @Test("Static field without initializer")
+    public staticFieldWithoutInitializer() {
+        const lua = util.transpileString(
+            `class a {
+                static field: number;
+                static set(value: number) { this.field = value; }
+            }
+            a.set(5);
+            return a.field;`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(5);
+    }
+
+    @Test("Static accessors")
+    public staticAccessors() {
+        const lua = util.transpileString(
+            `class a {
+                static count = 1;
+                static get double() { return this.count * 2; }
+                static set double(value: number) { this.count = value / 2; }
+            }
+            a.double = 8;
+            return a.double + a.count;`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(12);
+    }
+
+    @TestCase("b.value", 3)
+    @TestCase("b.get()", 3)
+    @TestCase("b.double", 6)
+    @TestCase("c.get()", 3)
+    @Test("Static inheritance")
+    public staticInheritance(expression: string, expected: number) {
+        const lua = util.transpileString(
+            `class a {
+                static value = 3;
+                static get() { return a.value; }
+                static get double() { return a.value * 2; }
+            }
+            class b extends a {}
+            class c extends b {}
+            return ${expression};`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(expected);
+    }
+
+    @Test("Inherited accessor")
+    public inheritedAccessor() {
+        const lua = util.transpileString(
+            `class a {
+                get value() { return 4; }
+            }
+            class b extends a {}
+            return new b().value;`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(4);
+    }
+
+    @Test("Super method call")
+    public superMethodCall() {
+        const lua = util.transpileString(
+            `class a {
+                constructor(public n: number) {}
+                update(dt: number) { return this.n + dt; }
+            }
+            class b extends a {
+                constructor(n: number) { super(n); }
+                update(dt: number) { return super.update(dt) * 2; }
+            }
+            return new b(3).update(1);`
+        );
+
+        Expect(lua).toContain("a.update(self,dt)");
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(8);
+    }
+
+    @Test("Super method call uses enclosing class")
+    public superMethodCallEnclosingClass() {
+        const lua = util.transpileString(
+            `class a {
+                name() { return "a"; }
+            }
+            class b extends a {
+                name() { return super.name() + "b"; }
+            }
+            class c extends b {
+                name() { return super.name() + "c"; }
+            }
+            return new c().name();`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("abc");
+    }
+
+    @Test("Super method call in arrow function")
+    public superMethodCallInArrow() {
+        const lua = util.transpileString(
+            `class a {
+                constructor(public n: number) {}
+                get() { return this.n; }
+            }
+            class b extends a {
+                constructor(n: number) { super(n); }
+                get() {
+                    const f = () => super.get() + 1;
+                    return f();
+                }
+            }
+            return new b(4).get();`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(5);
+    }
+
+    @Test("Super accessors")
+    public superAccessors() {
+        const lua = util.transpileString(
+            `class a {
+                v = 1;
+                get value() { return this.v * 10; }
+                set value(x: number) { this.v = x; }
+            }
+            class b extends a {
+                get value() { return super.value + 1; }
+                set value(x: number) { super.value = x * 2; }
+            }
+            const instance = new b();
+            instance.value = 3;
+            return instance.value;`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(61);
+    }
+
+    @Test("Super static method call")
+    public superStaticMethodCall() {
+        const lua = util.transpileString(
+            `class a {
+                static create() { return 1; }
+            }
+            class b extends a {
+                static create() { return super.create() + 1; }
+            }
+            return b.create();`
+        );
+
+        Expect(lua).toContain("return a.create()+1");
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(2);
+    }
+
+    @Test("Class expression")
+    public classExpression() {
+        const lua = util.transpileString(
+            `const a = class {
+                field = 2;
+                static value = 3;
+                get() { return this.field * a.value; }
+            };
+            return new a().get();`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(6);
+    }
+
+    @Test("Named class expression")
+    public namedClassExpression() {
+        const lua = util.transpileString(
+            `const a = class b {
+                static create() { return new b(); }
+                name() { return "b"; }
+            };
+            return a.create().name();`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("b");
+    }
+
+    @Test("Class expression creates new class each evaluation")
+    public classExpressionEvaluation() {
+        const lua = util.transpileString(
+            `function make(n: number) {
+                return class {
+                    get() { return n; }
+                };
+            }
+            const a = make(1);
+            const b = make(2);
+            return new a().get() * 10 + new b().get();`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(12);
+    }
+
+    @Test("Class mixin")
+    public classMixin() {
+        const lua = util.transpileString(
+            `type Constructor<T = {}> = new (...args: any[]) => T;
+            function Tagged<T extends Constructor>(Base: T) {
+                return class extends Base {
+                    tag() { return "tagged"; }
+                };
+            }
+            class a {
+                constructor(public name: string) {}
+                speak() { return this.name; }
+            }
+            class b extends Tagged(a) {
+                speak() { return super.speak() + "!"; }
+            }
+            const instance = new b("b");
+            return instance.speak() + instance.tag();`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("b!tagged");
+    }
+
+    @Test("Class extends expression is evaluated once")
+    public classExtendsExpressionEvaluatedOnce() {
+        const lua = util.transpileString(
+            `let calls = 0;
+            class a {
+                value() { return 1; }
+            }
+            function base() { calls++; return a; }
+            class b extends base() {
+                value() { return super.value() + 1; }
+            }
+            return new b().value() + new b().value() + calls;`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(5);
+    }
+
+    @Test("Derived class without constructor")
+    public derivedClassWithoutConstructor() {
+        const lua = util.transpileString(
+            `class a {
+                constructor(public x: number, public y: number) {}
+            }
+            class b extends a {}
+            const instance = new b(1, 2);
+            return instance.x + instance.y;`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(3);
+    }
+
+    @Test("Class initialization order")
+    public classInitializationOrder() {
+        const lua = util.transpileString(
+            `const log: string[] = [];
+            function note(text: string) { log.push(text); return text; }
+            class a {
+                fieldA = note("a field");
+                constructor(public paramA: string) { note("a body"); }
+            }
+            class b extends a {
+                fieldB = note("b field " + this.paramB);
+                constructor(public paramB: string) {
+                    super(note("b super"));
+                    note("b body");
+                }
+            }
+            new b("x");
+            return log.join(",");`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("b super,a field,a body,b field x,b body");
+    }
+
+    @Test("Field initializer referencing this")
+    public fieldInitializerThis() {
+        const lua = util.transpileString(
+            `class a {
+                first = 2;
+                second = this.first * this.factor;
+                constructor(public factor: number) {}
+            }
+            return new a(3).second;`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(6);
+    }
+
+    @Test("Base fields initialized in derived class")
+    public baseFieldsInDerivedClass() {
+        const lua = util.transpileString(
+            `class a {
+                x = 1;
+            }
+            class b extends a {
+                y = this.x + 1;
+            }
+            class c extends b {
+                constructor() {
+                    super();
+                }
+            }
+            const instance = new c();
+            return instance.x + instance.y;`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(3);
+    }
+
+    @TestCase(``, `instance["value"]`, 40)
+    @TestCase(``, `(instance as any).value`, 40)
+    @TestCase(`(instance as any).value = 5;`, `instance.value`, 50)
+    @TestCase(`instance["value"] = 6;`, `instance.field`, 6)
+    @TestCase(``, `(instance as any).method()`, 2)
+    @Test("Metatable accessors")
+    public metatableAccessors(statement: string, expression: string, expected: number) {
+        const lua = util.transpileString(
+            `class a {
+                field = 1;
+                get value() { return this.field * 10; }
+                set value(v: number) { this.field = v; }
+                method() { return 2; }
+            }
+            class b extends a {}
+            const instance = new b();
+            instance.field = 4;
+            ${statement}
+            return ${expression};`,
+            { luaTarget: LuaTarget.Lua53, dontRequireLuaLib: true, metatableAccessors: true }
+        );
+
+        Expect(lua).toContain("TS_classAccessors(b)");
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(expected);
+    }
+
+    @Test("Metatable accessors getter only")
+    public metatableAccessorsGetterOnly() {
+        const lua = util.transpileString(
+            `class a {
+                get value() { return 1; }
+            }
+            const instance: any = new a();
+            try {
+                instance.value = 2;
+            } catch (e) {
+                return e;
+            }`,
+            { luaTarget: LuaTarget.Lua53, dontRequireLuaLib: true, metatableAccessors: true }
+        );
+
+        const result: string = util.executeLua(lua);
+
+        Expect(result).toContain("Cannot set property value which has only a getter");
+    }
+
+    @Test("Metatable accessors disabled")
+    public metatableAccessorsDisabled() {
+        const lua = util.transpileString(
+            `class a {
+                get value() { return 1; }
+            }`
+        );
+
+        Expect(lua).toContain("a.__index = a");
+        Expect(lua).not.toContain("TS_classAccessors");
+    }
+
     @Test("Class without name error")
     public classWithoutNameError() {
         const transpiler = util.makeTestTranspiler();
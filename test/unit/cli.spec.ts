@@ -8,6 +8,7 @@ export class CLITests {
     @TestCase("luaTarget", "JIT")
     @TestCase("addHeader", true)
     @TestCase("dontRequireLuaLib", false)
+    @TestCase("metatableAccessors", false)
     @TestCase("rootDir", process.cwd())
     @TestCase("outDir", process.cwd())
     public defaultOptions(option: any, expected: any) {
@@ -1,4 +1,5 @@
 import { Expect, Test, TestCase } from "alsatian";
+import { LuaTarget } from "../../src/Transpiler";
 import * as util from "../src/util";
 
 export class LuaConditionalsTests {
@@ -251,4 +252,182 @@ export class LuaConditionalsTests {
         // Assert
         Expect(result).toBe(expected);
     }
+
+    @TestCase(LuaTarget.Lua51)
+    @TestCase(LuaTarget.Lua52)
+    @TestCase(LuaTarget.Lua53)
+    @TestCase(LuaTarget.LuaJIT)
+    @Test("switch fallthrough with default in the middle")
+    public switchDefaultFallthrough(luaTarget: LuaTarget) {
+        const lua = util.transpileString(
+            `const log: string[] = [];
+            function f(x: number) {
+                switch (x) {
+                    case 0:
+                        log.push("zero");
+                    case 1:
+                        log.push("one");
+                        break;
+                    default:
+                        log.push("default");
+                    case 2: {
+                        if (x > 5) { break; }
+                        log.push("two");
+                        return "return";
+                    }
+                }
+                return "end";
+            }
+            for (const x of [0, 1, 2, 9, 4]) {
+                log.push(f(x));
+            }
+            return log.join(",");`,
+            { luaTarget, dontRequireLuaLib: true }
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("zero,one,end,one,end,two,return,default,end,default,two,return");
+    }
+
+    @TestCase(LuaTarget.Lua51)
+    @TestCase(LuaTarget.Lua53)
+    @Test("switch return")
+    public switchReturn(luaTarget: LuaTarget) {
+        const lua = util.transpileString(
+            `function f(x: number) {
+                switch (x) {
+                    case 1:
+                    case 2:
+                        return "a";
+                    default:
+                        return "default";
+                    case 3:
+                        return "c";
+                }
+            }
+            return [f(1), f(2), f(3), f(4)].join(",");`,
+            { luaTarget, dontRequireLuaLib: true }
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("a,a,c,default");
+    }
+
+    @TestCase(LuaTarget.Lua52)
+    @TestCase(LuaTarget.Lua53)
+    @TestCase(LuaTarget.LuaJIT)
+    @Test("switch continue")
+    public switchContinue(luaTarget: LuaTarget) {
+        const lua = util.transpileString(
+            `const log: number[] = [];
+            for (let i = 0; i < 4; i++) {
+                switch (i) {
+                    case 1:
+                        continue;
+                    case 2:
+                        log.push(-i);
+                }
+                log.push(i);
+            }
+            return log.join(",");`,
+            { luaTarget, dontRequireLuaLib: true }
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("0,-2,2,3");
+    }
+
+    @TestCase(LuaTarget.Lua51)
+    @TestCase(LuaTarget.Lua53)
+    @Test("switch break out of loops")
+    public switchBreakLoops(luaTarget: LuaTarget) {
+        const lua = util.transpileString(
+            `const log: number[] = [];
+            outer: for (const i of [1, 2, 3, 4]) {
+                switch (i) {
+                    case 1:
+                        for (const j of [1, 2]) {
+                            if (j === 2) { break; }
+                            log.push(j * 10);
+                        }
+                        break;
+                    case 3:
+                        break outer;
+                }
+                log.push(i);
+            }
+            return log.join(",");`,
+            { luaTarget, dontRequireLuaLib: true }
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("10,1,2");
+    }
+
+    @TestCase(1, "a:1")
+    @TestCase(2, "a:1,b:2")
+    @TestCase(3, "a:1,b:2,default")
+    @Test("switch evaluates case expressions in order")
+    public switchEvaluationOrder(input: number, expected: string) {
+        const lua = util.transpileString(
+            `const log: string[] = [];
+            function c(name: string, value: number) { log.push(name + ":" + value); return value; }
+            switch (${input}) {
+                case c("a", 1):
+                    break;
+                case c("b", 2):
+                    break;
+                default:
+                    log.push("default");
+            }
+            return log.join(",");`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(expected);
+    }
+
+    @Test("switch matches strictly")
+    public switchStrict() {
+        const lua = util.transpileString(
+            `let result = "none";
+            const value: any = "1";
+            switch (value) {
+                case 1:
+                    result = "number";
+                    break;
+                case "1":
+                    result = "string";
+                    break;
+            }
+            return result;`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("string");
+    }
+
+    @Test("switch evaluates expression once")
+    public switchExpressionOnce() {
+        const lua = util.transpileString(
+            `let calls = 0;
+            function f() { calls++; return 3; }
+            switch (f()) {
+                case 1: break;
+                case 2: break;
+                case 3: break;
+            }
+            return calls;`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(1);
+    }
 }
@@ -1,4 +1,5 @@
 import { Expect, Test, TestCase } from "alsatian";
+import { LuaTarget } from "../../src/Transpiler";
 import * as util from "../src/util";
 
 export class LuaErrorTests {
@@ -10,16 +11,366 @@ export class LuaErrorTests {
             `throw "Some Error"`
         );
         // Assert
-        Expect(lua).toBe(`error("Some Error")`);
+        Expect(lua).toBe(`error("Some Error", 0)`);
     }
 
     @Test("throwError")
     public throwError() {
-        // Transpile & Asser
-        Expect(() => {
-            const lua = util.transpileString(
-                `throw Error("Some Error")`
-            );
-        }).toThrowError(Error, "Unsupported throw expression, only string literals are supported");
+        // Transpile
+        const lua = util.transpileString(
+            `throw Error("Some Error")`
+        );
+        // Assert
+        Expect(lua).toBe(`error(Error("Some Error"), 0)`);
+    }
+
+    @TestCase(`"string"`, "string")
+    @TestCase("42", 42)
+    @TestCase("value", true)
+    @Test("Catch receives thrown value")
+    public catchThrownValue(thrown: string, expected: any) {
+        const lua = util.transpileString(
+            `const value = { a: 1 };
+            try {
+                throw ${thrown};
+            } catch (e) {
+                return e === value || e;
+            }`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(expected);
+    }
+
+    @TestCase("new Error(\"msg\")", "Error,msg,Error: msg")
+    @TestCase("Error(\"msg\")", "Error,msg,Error: msg")
+    @TestCase("new Error()", "Error,,Error")
+    @TestCase("new TypeError(\"msg\")", "TypeError,msg,TypeError: msg")
+    @TestCase("RangeError(\"msg\")", "RangeError,msg,RangeError: msg")
+    @Test("Error name and message")
+    public errorNameMessage(error: string, expected: string) {
+        const lua = util.transpileString(`const e = ${error}; return [e.name, e.message, e.toString()].join(",");`);
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(expected);
+    }
+
+    @Test("Error stack")
+    public errorStack() {
+        const lua = util.transpileString(`return new TypeError("msg").stack;`);
+
+        const result: string = util.executeLua(lua);
+
+        Expect(result).toContain("TypeError: msg\nstack traceback:");
+    }
+
+    @TestCase("new Error()", "Error", true)
+    @TestCase("new Error()", "TypeError", false)
+    @TestCase("new TypeError()", "Error", true)
+    @TestCase("new RangeError()", "TypeError", false)
+    @TestCase("new MyError()", "Error", true)
+    @TestCase("new MyError()", "MyError", true)
+    @TestCase("new Error()", "MyError", false)
+    @TestCase("\"string\"", "Error", false)
+    @TestCase("42", "Error", false)
+    @Test("Catch instanceof")
+    public catchInstanceof(thrown: string, errorClass: string, expected: boolean) {
+        const lua = util.transpileString(
+            `class MyError extends Error {}
+            try {
+                throw ${thrown};
+            } catch (e) {
+                return e instanceof ${errorClass};
+            }`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(expected);
+    }
+
+    @Test("Error subclass")
+    public errorSubclass() {
+        const lua = util.transpileString(
+            `class HttpError extends Error {
+                constructor(public status: number, message: string) {
+                    super(message);
+                    this.name = "HttpError";
+                }
+            }
+            function request(): void {
+                throw new HttpError(404, "Not found");
+            }
+            try {
+                request();
+            } catch (e) {
+                if (e instanceof HttpError) {
+                    return \`\${e.status} \${e}\`;
+                }
+            }`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("404 HttpError: Not found");
+    }
+
+    @TestCase("try { log.push(\"try\"); } catch (e) { log.push(\"catch\"); }", "try")
+    @TestCase("try { throw \"x\"; } catch (e) { log.push(\"catch\"); }", "catch")
+    @TestCase("try { log.push(\"try\"); } finally { log.push(\"finally\"); }", "try,finally")
+    @TestCase("try { throw \"x\"; } catch (e) { log.push(\"catch\"); } finally { log.push(\"finally\"); }",
+              "catch,finally")
+    @TestCase("try { throw \"x\"; } catch { log.push(\"catch\"); }", "catch")
+    @Test("Try catch finally")
+    public tryCatchFinally(statement: string, expected: string) {
+        const lua = util.transpileString(`const log = []; ${statement} return log.join(",");`);
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(expected);
+    }
+
+    @TestCase("try { return \"try\"; } finally { log.push(\"finally\"); }", "try|finally")
+    @TestCase("try { throw \"x\"; } catch (e) { return \"catch\"; } finally { log.push(\"finally\"); }",
+              "catch|finally")
+    @TestCase("try { return \"try\"; } finally { return \"finally\"; }", "finally|")
+    @TestCase("try { throw \"x\"; } finally { return \"finally\"; }", "finally|")
+    @TestCase("try { log.push(\"try\"); } catch (e) { return \"catch\"; }", "after|try")
+    @TestCase("try { try { return \"inner\"; } finally { log.push(\"inner\"); } } finally { log.push(\"outer\"); }",
+              "inner|inner,outer")
+    @Test("Try return")
+    public tryReturn(statement: string, expected: string) {
+        const lua = util.transpileString(
+            `const log = [];
+            function f(): string {
+                ${statement}
+                return "after";
+            }
+            return f() + "|" + log.join(",");`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(expected);
+    }
+
+    @Test("Try return without value")
+    public tryReturnWithoutValue() {
+        const lua = util.transpileString(
+            `let log = "";
+            function f(): void {
+                try {
+                    return;
+                } finally {
+                    log += "finally";
+                }
+                log += "after";
+            }
+            f();
+            return log;`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("finally");
+    }
+
+    @Test("Try rethrow from catch runs finally")
+    public tryRethrowFromCatch() {
+        const lua = util.transpileString(
+            `const log = [];
+            try {
+                try {
+                    throw "first";
+                } catch (e) {
+                    log.push("catch");
+                    throw "second";
+                } finally {
+                    log.push("finally");
+                }
+            } catch (e) {
+                log.push("outer catch");
+            }
+            return log.join(",");`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("catch,finally,outer catch");
+    }
+
+    @Test("Try error without catch propagates after finally")
+    public tryFinallyPropagates() {
+        const lua = util.transpileString(
+            `const log = [];
+            try {
+                try {
+                    throw "error";
+                } finally {
+                    log.push("finally");
+                }
+                log.push("after");
+            } catch (e) {
+                log.push("caught");
+            }
+            return log.join(",");`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("finally,caught");
+    }
+
+    @TestCase(LuaTarget.Lua51)
+    @TestCase(LuaTarget.Lua53)
+    @Test("Try break")
+    public tryBreak(luaTarget: LuaTarget) {
+        const lua = util.transpileString(
+            `const log = [];
+            outer: for (let i = 0; i < 3; i++) {
+                for (let j = 0; j < 3; j++) {
+                    try {
+                        if (j === 1) {
+                            break;
+                        }
+                        if (i === 2) {
+                            break outer;
+                        }
+                        log.push(\`\${i}\${j}\`);
+                    } finally {
+                        log.push("f");
+                    }
+                }
+            }
+            return log.join(",");`,
+            { luaTarget, dontRequireLuaLib: true }
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("00,f,f,10,f,f,f");
+    }
+
+    @TestCase(LuaTarget.Lua52)
+    @TestCase(LuaTarget.Lua53)
+    @TestCase(LuaTarget.LuaJIT)
+    @Test("Try continue")
+    public tryContinue(luaTarget: LuaTarget) {
+        const lua = util.transpileString(
+            `const log = [];
+            for (let i = 0; i < 4; i++) {
+                try {
+                    try {
+                        if (i % 2 === 0) {
+                            continue;
+                        }
+                    } finally {
+                        log.push("f" + i);
+                    }
+                    log.push(i);
+                } catch (e) {
+                }
+            }
+            return log.join(",");`,
+            { luaTarget, dontRequireLuaLib: true }
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("f0,f1,1,f2,f3,3");
+    }
+
+    @Test("Try in switch")
+    public tryInSwitch() {
+        const lua = util.transpileString(
+            `let result = "";
+            switch (1 as number) {
+                case 1:
+                    try {
+                        result += "one";
+                        break;
+                    } finally {
+                        result += ",finally";
+                    }
+                case 2:
+                    result += ",two";
+            }
+            return result;`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("one,finally");
+    }
+
+    @Test("Try return in nested function")
+    public tryReturnInNestedFunction() {
+        const lua = util.transpileString(
+            `function f(): number {
+                try {
+                    const g = () => { return 1; };
+                    return g() + 1;
+                } finally {
+                }
+            }
+            return f();`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(2);
+    }
+
+    @TestCase("function* g() { try { yield 1; } catch (e) {} }", "yield")
+    @TestCase("function* g() { try {} catch (e) { yield 1; } }", "yield")
+    @TestCase("async function f() { try { await f(); } finally {} }", "await")
+    @Test("Try yield in Lua 5.1")
+    public tryYield51(code: string, keyword: string) {
+        Expect(() => util.transpileString(code, { luaTarget: LuaTarget.Lua51, dontRequireLuaLib: true }))
+            .toThrowError(Error, `Unsupported ${keyword} inside try, `
+                + `${keyword} inside try is not supported in Lua 5.1.`);
+    }
+
+    @Test("Try nested generator in Lua 5.1")
+    public tryNestedGenerator51() {
+        const lua = util.transpileString(
+            `try { const g = function*() { yield 1; }; } catch (e) {}`,
+            { luaTarget: LuaTarget.Lua51, dontRequireLuaLib: true }
+        );
+
+        Expect(lua).toContain("TS_yield(1)");
+    }
+
+    @TestCase(LuaTarget.LuaJIT)
+    @TestCase(LuaTarget.Lua53)
+    @Test("Try yield")
+    public tryYield(luaTarget: LuaTarget) {
+        const lua = util.transpileString(
+            `function* g() {
+                try {
+                    yield 1;
+                    throw "error";
+                } catch (e) {
+                    yield 2;
+                } finally {
+                    const f = function*() { yield 3; };
+                }
+            }
+            const result: number[] = [];
+            for (const value of g()) {
+                result.push(value);
+            }
+            return result.join(",");`,
+            { luaTarget, dontRequireLuaLib: false }
+        );
+
+        if (luaTarget === LuaTarget.Lua53) {
+            const result = util.executeLua(lua);
+            Expect(result).toBe("1,2");
+        } else {
+            Expect(lua).toContain("pcall(");
+        }
     }
 }
@@ -6,10 +6,10 @@ import * as util from "../src/util";
 
 export class ExpressionTests {
 
-    @TestCase("i++", "i=i+1")
-    @TestCase("++i", "i=i+1")
-    @TestCase("i--", "i=i-1")
-    @TestCase("--i", "i=i-1")
+    @TestCase("i++", "i = i+1")
+    @TestCase("++i", "i = i+1")
+    @TestCase("i--", "i = i-1")
+    @TestCase("--i", "i = i-1")
     @TestCase("!a", "(not a)")
     @TestCase("-a", "-a")
     @TestCase("delete tbl['test']", "tbl[\"test\"]=nil")
@@ -91,6 +91,82 @@ export class ExpressionTests {
         Expect(result).toBe(expected);
     }
 
+    @TestCase("arr[i()] += 5", "1:10,25,30")
+    @TestCase("arr[i()]++", "1:10,21,30")
+    @TestCase("--arr[i()]", "1:10,19,30")
+    @TestCase("obj().values[i()] *= 2", "2:10,40,30")
+    @TestCase("obj().count += 2", "1:3")
+    @TestCase("obj().count++", "1:2")
+    @Test("Compound assignment evaluates target once")
+    public compoundAssignmentTargetOnce(statement: string, expected: string) {
+        const lua = util.transpileString(
+            `let calls = 0;
+            const arr = [10, 20, 30];
+            const o = { count: 1, values: arr };
+            function i() { calls++; return 1; }
+            function obj() { calls++; return o; }
+            ${statement};
+            return calls + ":" + (${statement.indexOf("count") !== -1 ? "o.count" : "arr.join(\",\")"});`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(expected);
+    }
+
+    @TestCase("x++", "1,2")
+    @TestCase("x--", "1,0")
+    @TestCase("++x", "2,2")
+    @TestCase("--x", "0,0")
+    @TestCase("x = 5", "5,5")
+    @TestCase("x += 5", "6,6")
+    @TestCase("x = y = 3", "3,3")
+    @TestCase("(x = 4) + (x *= 2)", "12,8")
+    @Test("Assignment as expression")
+    public assignmentExpression(expression: string, expected: string) {
+        const lua = util.transpileString(`let x = 1; let y = 0; const v = ${expression}; return v + "," + x;`);
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(expected);
+    }
+
+    @Test("Increment in element access")
+    public incrementInElementAccess() {
+        const lua = util.transpileString(
+            `const arr = [1, 2, 3];
+            const result = [];
+            let i = 0;
+            while (i < arr.length) {
+                result.push(arr[i++] * 10);
+            }
+            arr[--i] = 0;
+            return result.join(",") + ":" + arr.join(",");`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("10,20,30:1,2,0");
+    }
+
+    @Test("Assignment in condition")
+    public assignmentInCondition() {
+        const lua = util.transpileString(
+            `const values = [3, 2, 1, 0];
+            let index = 0;
+            let value: number;
+            let sum = 0;
+            while ((value = values[index++]) > 0) {
+                sum += value;
+            }
+            return sum + "," + index;`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("6,4");
+    }
+
     @TestCase("~b")
     @TestCase("a&b")
     @TestCase("a&=b")
@@ -181,11 +257,58 @@ export class ExpressionTests {
         Expect(util.transpileString(input)).toBe(lua);
     }
 
-    @TestCase("1 + a ? 3*a : c", "TS_ITE(1+a,function() return 3*a end,function() return c end)")
-    @TestCase("a ? b : c", "TS_ITE(a,function() return b end,function() return c end)")
+    @TestCase("const x = 1 + a ? 3*a : c", "local x = (1+a) and (3*a) or c")
+    @TestCase("const x = a ? s! : c", "local x = a and s or c")
+    @TestCase("const x = a ? \"s\" : c", "local x = a and \"s\" or c")
+    @TestCase("const x = a ? s : c",
+              "local ____ternary0\nif a then\n    ____ternary0 = s\nelse\n    ____ternary0 = c\nend\nlocal x = ____ternary0")
+    @TestCase("const x = a ? b : c",
+              "local ____ternary0\nif a then\n    ____ternary0 = b\nelse\n    ____ternary0 = c\nend\nlocal x = ____ternary0")
+    @TestCase("a ? f(b) : f(c)", "if a then\n    f(b)\nelse\n    f(c)\nend")
+    @TestCase("f(f(a), a ? b : c)", "f(f(a),TS_ITE(a,function() return b end,function() return c end))")
     @Test("Ternary operator")
     public conditional(input: string, lua: string) {
-        Expect(util.transpileString(input)).toBe(lua);
+        const declarations = "declare const a: number, c: number, s: string, b: boolean; declare function f(...args);";
+        Expect(util.transpileString(declarations + input)).toBe(lua);
+    }
+
+    @TestCase("const x = a ? s : c", "local x = a and s or c")
+    @TestCase("const x = a ? o : c", "local x = a and o or c")
+    @TestCase("const x = a ? u : c",
+              "local ____ternary0\nif a then\n    ____ternary0 = u\nelse\n    ____ternary0 = c\nend\nlocal x = ____ternary0")
+    @Test("Ternary operator strict null checks")
+    public conditionalStrictNullChecks(input: string, lua: string) {
+        const declarations = "declare const a: number, c: number, s: string, o: {}, u: string | undefined;";
+        const options = { luaTarget: LuaTarget.Lua53, dontRequireLuaLib: true, strictNullChecks: true };
+        Expect(util.transpileString(declarations + input, options)).toBe(lua);
+    }
+
+    @TestCase("const x = t ? s : 2; return x;", null)
+    @TestCase("const x = t ? o.k : 2; return x;", null)
+    @TestCase("const x = t ? 1 : 2; return x;", 1)
+    @TestCase("const x = z ? 1 : 2; return x;", 1)
+    @TestCase("const x = e ? 1 : 2; return x;", 1)
+    @TestCase("const x = t ? false : true; return x;", false)
+    @TestCase("const x = t ? undefined : 1; return x;", null)
+    @TestCase("const x = n ? 1 : false; return x;", false)
+    @TestCase("return t ? n : 1;", null)
+    @TestCase("const arr = [t ? f : 1, t ? 1 : 2]; return arr[0];", false)
+    @TestCase("const g = (x: boolean) => x ? false : true; return g(true);", false)
+    @TestCase("let i = 0; const x = i++ > 0 ? 1 : undefined; return `${x},${i}`;", "nil,1")
+    @TestCase("let i = 0; const x = [i++, i ? undefined : 1]; return `${x[1]},${i}`;", "nil,1")
+    @TestCase("let a = f, b = t ? a : true; return b;", false)
+    @TestCase("let i = 0; let a = i++, b = i > 0 ? undefined : 1; return `${a},${b},${i}`;", "0,nil,1")
+    @TestCase("if (t ? f : t) { return 1; } else if (f ? t : f) { return 2; } return 3;", 3)
+    @Test("Ternary operator falsy values")
+    public conditionalFalsy(code: string, expected: any) {
+        const lua = util.transpileString(
+            `const t = true, f = false, z = 0, e = "", n = undefined, s: string = n, o: {k: number} = {k: n};
+            ${code}`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(expected);
     }
 
     @Test("Arrow Function Expression")
@@ -330,6 +453,28 @@ export class ExpressionTests {
         Expect(result).toBe(expected);
     }
 
+    @TestCase("inst.field++", "4,9")
+    @TestCase("++inst.field", "5,9")
+    @TestCase("inst.field = 2", "2,6")
+    @TestCase("inst.field -= 2", "2,6")
+    @Test("Set accessor assignment as expression")
+    public setAccessorExpression(expression: string, expected: string) {
+        const lua = util.transpileString(
+            `class MyClass {
+                public _field: number = 4;
+                public get field(): number { return this._field; }
+                public set field(v: number) { this._field = v + 4; }
+            }
+            const inst = new MyClass();
+            const v = ${expression};
+            return v + "," + inst._field;`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(expected);
+    }
+
     @Test("Class method call")
     public classMethod() {
         const returnValue = 4;
@@ -0,0 +1,309 @@
+import { Expect, Test, TestCase } from "alsatian";
+
+import * as util from "../src/util";
+
+export class FunctionTests {
+
+    @TestCase("", 7)
+    @TestCase("5", 9)
+    @TestCase("1, 2", 3)
+    @Test("Function declaration default values")
+    public functionDeclarationDefaultValues(callArgs: string, expected: number) {
+        const lua = util.transpileString(
+            `function add(a: number = 3, b: number = 4) { return a + b; }
+            return add(${callArgs});`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(expected);
+    }
+
+    @TestCase("", 7)
+    @TestCase("5", 9)
+    @Test("Expression bodied arrow default values")
+    public expressionArrowDefaultValues(callArgs: string, expected: number) {
+        const lua = util.transpileString(
+            `const add = (a: number = 3, b: number = 4) => a + b;
+            return add(${callArgs});`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(expected);
+    }
+
+    @TestCase("function f({ x, y }: Point) { return x + y; }", "f(point)")
+    @TestCase("function f({ x, y: [y] }: { x: number, y: number[] }) { return x + y; }", "f({ x: 1, y: [2] })")
+    @TestCase("const f = function({ x, y }: Point) { return x + y; };", "f(point)")
+    @TestCase("const f = ({ x, y }: Point) => x + y;", "f(point)")
+    @TestCase("const f = ([x, y]: number[]) => x + y;", "f([1, 2])")
+    @TestCase("const f = ({ x, y }: Point = { x: 1, y: 2 }) => x + y;", "f()")
+    @TestCase("const f = ({ x, y = 2 }: Partial<Point>) => x + y;", "f({ x: 1 })")
+    @TestCase("const f = (...[x, y]: number[]) => x + y;", "f(1, 2)")
+    @TestCase("class C { m({ x, y }: Point) { return x + y; } }", "new C().m(point)")
+    @TestCase("class C { s: number; constructor({ x, y }: Point) { this.s = x + y; } }", "new C(point).s")
+    @TestCase("class C { s: number; set v({ x, y }: Point) { this.s = x + y; } }",
+              "(() => { const c = new C(); c.v = point; return c.s; })()")
+    @Test("Destructuring parameters")
+    public destructuringParameters(declaration: string, call: string) {
+        const lua = util.transpileString(
+            `interface Point { x: number; y: number; }
+            const point = { x: 1, y: 2 };
+            ${declaration}
+            return ${call};`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(3);
+    }
+
+    @Test("Destructuring parameter values")
+    public destructuringParameterValues() {
+        const lua = util.transpileString(
+            `function f(a: number, { b, c = 3 }: { b: number, c?: number }, [d]: number[], ...rest: number[]) {
+                return a * 10000 + b * 1000 + c * 100 + d * 10 + rest.length;
+            }
+            return f(1, { b: 2 }, [4], 7, 8);`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(12342);
+    }
+
+    @Test("Constructor parameter property with default")
+    public constructorParameterPropertyDefault() {
+        const lua = util.transpileString(
+            `class C { constructor(public field: number = 4) {} }
+            return new C().field;`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(4);
+    }
+
+    @Test("This parameter")
+    public thisParameter() {
+        const lua = util.transpileString(`function f(this: void, a: number) { return a; }`);
+
+        Expect(lua).toBe("function f(a)\n    return a\nend");
+    }
+
+    @TestCase("a.add.call(b, 1, 2)", 13)
+    @TestCase("a.add.apply(b, [3, 4])", 17)
+    @TestCase("a.add.apply(b, values)", 17)
+    @TestCase("a.add.bind(b)(1, 2)", 13)
+    @TestCase("a.add.bind(b, 5)(1)", 16)
+    @TestCase("sum.call(undefined, 1, 2, 3)", 6)
+    @TestCase("sum.apply(undefined, [4, 5, 6])", 15)
+    @TestCase("sum.bind(undefined, 1, 2)(3)", 6)
+    @Test("Function call, apply and bind")
+    public functionCallApplyBind(expression: string, expected: number) {
+        const lua = util.transpileString(
+            `class A {
+                constructor(public n: number) {}
+                add(x: number, y: number) { return this.n + x + y; }
+            }
+            function sum(a: number, b: number, c: number) { return a + b + c; }
+            const a = new A(1);
+            const b = new A(10);
+            const values = [3, 4];
+            return ${expression};`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(expected);
+    }
+
+    @Test("Function call with method receiver")
+    public functionCallMethodReceiver() {
+        const lua = util.transpileString(
+            `class A { n = 1; get() { return this.n; } }
+            const a = new A();
+            a.get.call(a);`
+        );
+
+        Expect(lua).toContain("a.get(a)");
+    }
+
+    @Test("Function bind preserves nil arguments")
+    public functionBindNilArguments() {
+        const lua = util.transpileString(
+            `function f(a: number, b: number, c: number) { return c; }
+            const g = f.bind(undefined, undefined);
+            return g(undefined, 3);`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(3);
+    }
+
+    @TestCase("button.on(this.onClick);")
+    @TestCase("button.on(other ? this.onClick : undefined);")
+    @TestCase("button.on(this.onClick || ((evt: string) => {}));")
+    @TestCase("button.on(other && this.onClick);")
+    @TestCase("const handler: (evt: string) => void = this.onClick; button.on(handler);")
+    @TestCase("[\"e\"].forEach(this.onClick);")
+    @Test("Method reference bound to receiver")
+    public methodReferenceBound(attach: string) {
+        const lua = util.transpileString(
+            `class Button {
+                handler: (evt: string) => void;
+                on(handler: (evt: string) => void) { this.handler = handler; }
+                click() { this.handler("e"); }
+            }
+            const button = new Button();
+            const other = true;
+            class View {
+                name = "view";
+                result = "";
+                onClick(evt: string) { this.result = this.name + ":" + evt; }
+                attach() { ${attach} }
+            }
+            const view = new View();
+            view.attach();
+            if (button.handler) { button.click(); }
+            return view.result;`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("view:e");
+    }
+
+    @TestCase("const raw = a.get;", "local raw = a.get")
+    @TestCase("const listener: Listener = { handle: a.get };", "local listener = {handle = a.get}")
+    @TestCase("declare function log(value: any): void; log(a.get);", "log(a.get)")
+    @TestCase("declare function on(handler: Function): void; on(a.get);", "on(a.get)")
+    @Test("Method reference not bound")
+    public methodReferenceNotBound(code: string, expected: string) {
+        const lua = util.transpileString(
+            `interface Listener { handle(): number; }
+            class A { get() { return 1; } }
+            const a = new A();
+            ${code}`
+        );
+
+        Expect(lua).toContain(expected);
+    }
+
+    @Test("Ambiguous method reference binding")
+    public ambiguousMethodReference() {
+        Expect(() => util.transpileString(
+            `declare function on(handler: ((this: void) => number) | ((this: {}) => number)): void;
+            class A { get() { return 1; } }
+            on(new A().get);`
+        )).toThrowError(Error, "Unable to determine if method reference 'get' has to be bound to its "
+            + "receiver, use an arrow function or bind instead.");
+    }
+
+    @TestCase("interface I { m(x: number): void; }", "i:m(1)")
+    @TestCase("interface I { m(this: void, x: number): void; }", "i.m(1)")
+    @TestCase("interface I { m(this: {}, x: number): void; }", "i:m(1)")
+    @TestCase("interface I { m: (x: number) => void; }", "i.m(1)")
+    @TestCase("interface I { m: (this: I, x: number) => void; }", "i:m(1)")
+    @TestCase("interface Callback { (x: number): void; } interface I { m: Callback; }", "i.m(1)")
+    @TestCase("/** !NoSelf */ interface I { m(x: number): void; }", "i.m(1)")
+    @TestCase("interface I {\n/** !NoSelf */\nm(x: number): void;\n}", "i.m(1)")
+    @TestCase("/** !NoSelf */ declare namespace N { interface I { m(x: number): void; } } type I = N.I;", "i.m(1)")
+    @Test("Call convention from this parameter")
+    public callConvention(declaration: string, expected: string) {
+        const lua = util.transpileString(
+            `${declaration}
+            declare const i: I;
+            i.m(1);`
+        );
+
+        Expect(lua).toBe(expected);
+    }
+
+    @Test("Call convention from file decorator")
+    public callConventionFileDecorator() {
+        const lua = util.transpileString(
+            `/** !NoSelfInFile */
+            interface I { m(x: number): void; }
+            declare const i: I;
+            i.m(1);`
+        );
+
+        Expect(lua).toBe("i.m(1)");
+    }
+
+    @TestCase("function f(this: any, a: number) { return a; }", "function f(self,a)")
+    @TestCase("class C { m(this: void, a: number) { return a; } }", "function C.m(a)")
+    @TestCase("const o = { m(this: void, a: number) { return a; } };", "m = function(a)")
+    @TestCase("const f = function(this: {}, a: number) { return a; };", "local f = function(self,a)")
+    @Test("Definition convention from this parameter")
+    public definitionConvention(declaration: string, expected: string) {
+        const lua = util.transpileString(declaration);
+
+        Expect(lua).toContain(expected);
+    }
+
+    @Test("Function properties called without self")
+    public functionPropertiesWithoutSelf() {
+        const lua = util.transpileString(
+            `class C { double = (x: number) => x * 2; }
+            function withSelf(this: { n: number }, x: number) { return this.n + x; }
+            const o = { n: 5, f: withSelf, g: function(x: number) { return x * 3; } };
+            return new C().double(1) + o.f(1) + o.g(1);`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(11);
+    }
+
+    @Test("Function taking self called without receiver")
+    public selfFunctionWithoutReceiver() {
+        const lua = util.transpileString(
+            `class C { m(x: number) { return x; } }
+            const c = new C();
+            const m = c.m;
+            return m(1) + c["m"](2);`
+        );
+
+        Expect(lua).toContain("m(nil,1)");
+        Expect(lua).toContain(`TS_callMethod(c,"m",2)`);
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(3);
+    }
+
+    @TestCase("register(withSelf);")
+    @TestCase("const cb: (this: void, x: number) => void = withSelf;")
+    @TestCase("register(function(this: {}, x: number) {});")
+    @TestCase("let cb: Callback; cb = withSelf;")
+    @TestCase("const o: { cb: Callback } = { cb: withSelf };")
+    @TestCase("class C { cb: Callback = withSelf; }")
+    @TestCase("class C { static cb: Callback = withSelf; }")
+    @TestCase("function get(): Callback { return withSelf; }")
+    @TestCase("const get = (): Callback => withSelf;")
+    @Test("Function with self assigned to this void slot")
+    public selfFunctionToNoSelfSlot(code: string) {
+        Expect(() => util.transpileString(
+            `declare function register(cb: (this: void, x: number) => void): void;
+            type Callback = (this: void, x: number) => void;
+            function withSelf(this: {}, x: number) {}
+            ${code}`
+        )).toThrowError(Error, "Unable to convert function with a 'this' parameter to function with 'this: void'. "
+            + "Wrap it in an arrow function or declare it with 'this: void'.");
+    }
+
+    @TestCase("const fns = [withSelf];")
+    @TestCase("const f = withSelf;")
+    @TestCase("withSelf.call({}, 1);")
+    @Test("Function with self not flowing into this void slot")
+    public selfFunctionNotToNoSelfSlot(code: string) {
+        Expect(() => util.transpileString(
+            `function withSelf(this: {}, x: number) {}
+            ${code}`
+        )).not.toThrow();
+    }
+}
@@ -0,0 +1,332 @@
+import { Expect, Test, TestCase } from "alsatian";
+
+import * as util from "../src/util";
+
+export class GeneratorTests {
+
+    @Test("Generator next")
+    public generatorNext() {
+        const lua = util.transpileString(
+            `function* seq() {
+                yield 1;
+                yield 2;
+                return 3;
+            }
+            const it = seq();
+            const results = [it.next(), it.next(), it.next(), it.next()];
+            return results.map(r => \`\${r.value}:\${r.done}\`).join(",");`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("1:false,2:false,3:true,nil:true");
+    }
+
+    @Test("Generator body runs lazily")
+    public generatorLazy() {
+        const lua = util.transpileString(
+            `let calls = 0;
+            function* seq(start = calls) {
+                calls++;
+                yield start;
+            }
+            const it = seq();
+            const before = calls;
+            const value = it.next().value;
+            return \`\${before},\${calls},\${value}\`;`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("0,1,0");
+    }
+
+    @Test("Generator yield receives next argument")
+    public generatorYieldValue() {
+        const lua = util.transpileString(
+            `function* acc() {
+                let total = 0;
+                while (true) {
+                    const x: number = yield total;
+                    total += x;
+                }
+            }
+            const it = acc();
+            it.next();
+            it.next(5);
+            return it.next(10).value;`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(15);
+    }
+
+    @Test("Generator return")
+    public generatorReturn() {
+        const lua = util.transpileString(
+            `function* seq() {
+                yield 1;
+                yield 2;
+            }
+            const it = seq();
+            it.next();
+            const r = it.return(5);
+            return \`\${r.value},\${r.done},\${it.next().done}\`;`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("5,true,true");
+    }
+
+    @Test("Generator return runs finally and skips catch")
+    public generatorReturnFinally() {
+        const lua = util.transpileString(
+            `const log = [];
+            function* seq() {
+                try {
+                    yield 1;
+                    yield 2;
+                } catch (e) {
+                    log.push("catch");
+                } finally {
+                    log.push("finally");
+                }
+                log.push("after");
+            }
+            const it = seq();
+            it.next();
+            const r = it.return(5);
+            return \`\${log.join(",")}|\${r.value},\${r.done},\${it.next().done}\`;`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("finally|5,true,true");
+    }
+
+    @Test("Generator return before start skips finally")
+    public generatorReturnNotStarted() {
+        const lua = util.transpileString(
+            `const log = [];
+            function* seq() {
+                try {
+                    yield 1;
+                } finally {
+                    log.push("finally");
+                }
+            }
+            const r = seq().return(5);
+            return \`\${log.length},\${r.value},\${r.done}\`;`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("0,5,true");
+    }
+
+    @TestCase("for (const x of seq()) { break; }")
+    @TestCase("outer: for (const y of [1, 2]) { for (const x of seq()) { break outer; } }")
+    @TestCase("for (const x of seq()) { try { break; } finally { log.push(\"try\"); } }")
+    @TestCase("const run = () => { for (const x of seq()) { return x; } }; run();")
+    @TestCase("const run = () => { for (const x of seq()) { try { return x; } catch (e) {} } }; run();")
+    @Test("Generator closed when for...of exits early")
+    public generatorForOfClose(loop: string) {
+        const lua = util.transpileString(
+            `const log = [];
+            function* seq() {
+                try {
+                    yield 1;
+                    yield 2;
+                } finally {
+                    log.push("finally");
+                }
+            }
+            ${loop}
+            return log.filter(entry => entry === "finally").length;`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(1);
+    }
+
+    @Test("Generator for...of continue keeps iterating")
+    public generatorForOfContinue() {
+        const lua = util.transpileString(
+            `const log = [];
+            function* seq() {
+                try {
+                    yield 1;
+                    yield 2;
+                } finally {
+                    log.push("finally");
+                }
+            }
+            for (const x of seq()) {
+                log.push(x);
+                continue;
+            }
+            return log.join(",");`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("1,2,finally");
+    }
+
+    @Test("Generator throw caught inside generator")
+    public generatorThrowCaught() {
+        const lua = util.transpileString(
+            `function* seq() {
+                let caught = "";
+                try {
+                    yield 1;
+                } catch (e) {
+                    caught = e;
+                }
+                yield caught;
+            }
+            const it = seq();
+            it.next();
+            return it.throw("oops").value;`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("oops");
+    }
+
+    @Test("Generator throw before start")
+    public generatorThrowNotStarted() {
+        const lua = util.transpileString(
+            `function* seq() {
+                yield 1;
+            }
+            const it = seq();
+            try {
+                it.throw("oops");
+            } catch (e) {
+            }
+            return it.next().done;`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(true);
+    }
+
+    @TestCase("function* seq() { yield 1; yield 2; yield 3; }", "seq()")
+    @TestCase("const seq = function*() { yield 1; yield 2; yield 3; };", "seq()")
+    @TestCase("class A { *seq() { yield 1; yield 2; yield 3; } }", "new A().seq()")
+    @TestCase("const o = { *seq() { yield 1; yield 2; yield 3; } };", "o.seq()")
+    @Test("Generator for...of")
+    public generatorForOf(declaration: string, call: string) {
+        const lua = util.transpileString(
+            `${declaration}
+            let result = 0;
+            for (const x of ${call}) {
+                result = result * 10 + x;
+            }
+            return result;`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(123);
+    }
+
+    @Test("Generator method uses self")
+    public generatorMethodSelf() {
+        const lua = util.transpileString(
+            `class Counter {
+                constructor(public n: number) {}
+                *values() {
+                    for (let i = 0; i < this.n; i++) {
+                        yield i;
+                    }
+                }
+            }
+            let result = 0;
+            for (const x of new Counter(4).values()) {
+                result += x;
+            }
+            return result;`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(6);
+    }
+
+    @Test("Generator yield* delegation")
+    public generatorDelegation() {
+        const lua = util.transpileString(
+            `function* inner() {
+                yield 2;
+                yield 3;
+                return 4;
+            }
+            function* outer() {
+                yield 1;
+                const r = yield* inner();
+                yield r;
+                yield* [5, 6];
+            }
+            const values = [];
+            for (const x of outer()) {
+                values.push(x);
+            }
+            return values.join(",");`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("1,2,3,4,5,6");
+    }
+
+    @Test("Generator yield* forwards next argument")
+    public generatorDelegationForwards() {
+        const lua = util.transpileString(
+            `function* inner() {
+                const x: number = yield 1;
+                return x * 2;
+            }
+            function* outer() {
+                const r = yield* inner();
+                yield r;
+            }
+            const it = outer();
+            it.next();
+            return it.next(21).value;`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(42);
+    }
+
+    @Test("Generator error propagates to next")
+    public generatorError() {
+        const lua = util.transpileString(
+            `function* seq() {
+                yield 1;
+                throw "broken";
+            }
+            const it = seq();
+            it.next();
+            let caught = false;
+            try {
+                it.next();
+            } catch (e) {
+                caught = true;
+            }
+            return \`\${caught},\${it.next().done}\`;`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("true,true");
+    }
+}
@@ -316,6 +316,245 @@ export class LuaLoopTests {
         Expect(result).toBe(JSON.stringify(expected));
     }
 
+    @TestCase("let i = 0; i < 3; i++", "for i = 0, 2 do")
+    @TestCase("let i = 0; i <= 3; i++", "for i = 0, 3 do")
+    @TestCase("let i = 3; i > 0; i--", "for i = 3, 1, -1 do")
+    @TestCase("let i = 3; 0 <= i; --i", "for i = 3, 0, -1 do")
+    @TestCase("let i = 0; i < 2.5; i++", "for i = 0, 2 do")
+    @TestCase("let i = 3; i > 0.5; i--", "for i = 3, 1, -1 do")
+    @TestCase("let i = 0; i < n; i += 2", "for i = 0, math.ceil(n) - 1, 2 do")
+    @TestCase("let i = 0; i <= n; i++", "for i = 0, n do")
+    @TestCase("let i = 5; i > n; i--", "for i = 5, math.floor(n) + 1, -1 do")
+    @TestCase("let i = 0; i < arr.length; i++", "for i = 0, #arr - 1 do")
+    @TestCase("let i = arr.length - 1; i >= 0; i--", "for i = #arr-1, 0, -1 do")
+    @Test("for numeric")
+    public forNumeric(header: string, expected: string) {
+        const lua = util.transpileString(
+            `declare const n: number; declare const arr: number[]; let x = 0;
+            for (${header}) { x += arr[i]; }`
+        );
+
+        Expect(lua).toContain(expected);
+    }
+
+    @TestCase("let i = 0; i < 3; i++", "i++;")
+    @TestCase("let i = 0; i < 3; i++", "const f = () => { i = 5; };")
+    @TestCase("let i = 0; i < n; i++", "n--;")
+    @TestCase("let i = 0; i < n; i++", "update();")
+    @TestCase("let i = 0; i < arr.length; i++", "arr.push(1);")
+    @TestCase("let i = 0; i < arr.length; i++", "arr[arr.length] = 1;")
+    @TestCase("let i = 0; i < next(); i++", "")
+    @TestCase("let i = 0; i > 3; i++", "")
+    @TestCase("let i = 0.5; i < 3; i++", "")
+    @TestCase("let i = n; i > n - 5; i -= 1", "")
+    @TestCase("let i = 0; i < 3; i += 0.5", "")
+    @TestCase("var i = 0; i < 3; i++", "")
+    @Test("for not numeric")
+    public forNotNumeric(header: string, body: string) {
+        const lua = util.transpileString(
+            `declare let n: number; declare const arr: number[]; declare function update(): void;
+            declare function next(): number;
+            for (${header}) { ${body} }`
+        );
+
+        Expect(lua).toContain("while(");
+    }
+
+    @TestCase("let i = 0; i < 2.5; i++", "0,1,2")
+    @TestCase("let i = 0; i < b; i++", "0,1,2")
+    @TestCase("let i = 0; i <= b; i++", "0,1,2")
+    @TestCase("let i = 3; i > b - 2; i--", "3,2,1")
+    @TestCase("let i = 3; i >= b - 2; i--", "3,2,1")
+    @TestCase("let i = s; i < 3; i++", "0.5,1.5,2.5")
+    @Test("for numeric non-integer bounds")
+    public forNumericNonInteger(header: string, expected: string) {
+        const lua = util.transpileString(
+            `let b = 2.5; let s = 0.5;
+            const result: number[] = [];
+            for (${header}) { result.push(i); }
+            return result.join(",");`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(expected);
+    }
+
+    @TestCase("let i = 0; i < 3; i++", "", "0,1,2")
+    @TestCase("let i = 0; i < 6; i++", "i++;", "1,3,5")
+    @TestCase("let i = 0; i < n; i++", "", "0,1,2")
+    @TestCase("let i = 0, j = 10; i < 3; i++", "j++;", "11,12,13", "j")
+    @TestCase("let i = 0; i < 3; i++", "if (i === 1) { continue; }", "0,1,2")
+    @TestCase("let i = 0; i < 6; i++", "if (i === 1) { i++; continue; }", "0,2,3,4,5")
+    @TestCase("let i = 0; i < 6; i++", "if (i === 2) { break; }", "0,1,2")
+    @Test("for let closures capture each iteration")
+    public forClosures(header: string, body: string, expected: string, captured = "i") {
+        const lua = util.transpileString(
+            `let n = 3;
+            const fns: Array<() => number> = [];
+            for (${header}) {
+                fns.push(() => ${captured});
+                ${body}
+            }
+            return fns.map(f => f()).join(",");`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(expected);
+    }
+
+    @Test("for let does not leak")
+    public forLetScope() {
+        const lua = util.transpileString(
+            `let i = 10;
+            let n = 3;
+            for (let i = 0; i < n; i++) { n--; }
+            return i;`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(10);
+    }
+
+    @Test("for var is function scoped")
+    public forVarScope() {
+        const lua = util.transpileString(
+            `for (var i = 0; i < 3; i++) {}
+            return i;`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(3);
+    }
+
+    @TestCase("let i = 0; for (i = 1; i < 4; i++) { result.push(i); }", "1,2,3")
+    @TestCase("let i = 0, j = 0; for (i = 1, j = 5; i < j; i++) { result.push(i); }", "1,2,3,4")
+    @TestCase("let i = 0; for (; i < 3; i++) { result.push(i); }", "0,1,2")
+    @TestCase("for (let i = 0; ; i++) { if (i > 2) { break; } result.push(i); }", "0,1,2")
+    @TestCase("for (let i = 0; i < 3;) { result.push(i); i++; }", "0,1,2")
+    @TestCase("let i = 0; for (;;) { i++; if (i > 3) { break; } result.push(i); }", "1,2,3")
+    @TestCase("for (let i = 0, j = 5; i < j; i++, j--) { result.push(i * 10 + j); }", "5,14,23")
+    @TestCase("for (let i = 0, j = 5; i < j; i++, j--) { result.push(() => i + j); }", "5,5,5")
+    @TestCase("let a = 0, b = 0; for ([a, b] = [1, 3]; a < b; a++) { result.push(a); }", "1,2")
+    @TestCase("for (let i = 0; i < 5; i += 2, result.push(-i)) { result.push(i); }", "0,-2,2,-4,4,-6")
+    @Test("for shapes")
+    public forShapes(loop: string, expected: string) {
+        const lua = util.transpileString(
+            `const result: Array<number | (() => number)> = [];
+            ${loop}
+            return result.map(v => typeof v === "function" ? v() : v).join(",");`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(expected);
+    }
+
+    @TestCase("let i = 0, j = 0; for (; i < 5; i++, j += 2) { if (i % 2 === 0) { continue; } result.push(j); }")
+    @TestCase("for (let i = 0, j = 0; i < 5; i++, j += 2) { if (i % 2 === 0) { continue; } result.push(j); }")
+    @TestCase("for (let i = 0, j = 0; i < 5; i++, j += 2) { result.push(() => j); if (i % 2 === 0) { continue; } }")
+    @Test("for continue runs incrementor")
+    public forContinueIncrementor(loop: string) {
+        const lua = util.transpileString(
+            `const result: Array<number | (() => number)> = [];
+            ${loop}
+            return result.map(v => typeof v === "function" ? v() : v).join(",");`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(loop.indexOf("() =>") !== -1 ? "0,2,4,6,8" : "2,6");
+    }
+
+    @TestCase(LuaTarget.Lua51)
+    @TestCase(LuaTarget.Lua52)
+    @TestCase(LuaTarget.Lua53)
+    @TestCase(LuaTarget.LuaJIT)
+    @Test("labeled break")
+    public labeledBreak(luaTarget: LuaTarget) {
+        const lua = util.transpileString(
+            `const result: string[] = [];
+            outer: for (let i = 0; i < 4; i++) {
+                for (const j of [0, 1, 2, 3]) {
+                    if (j === 2) { break; }
+                    if (i === 3) { break outer; }
+                    result.push(\`\${i}\${j}\`);
+                }
+            }
+            let k = 0;
+            a: b: while (true) {
+                k++;
+                let n = 0;
+                do {
+                    n++;
+                    inner: {
+                        if (k > 2) { break b; }
+                        if (n > 1) { break inner; }
+                        result.push("k" + k);
+                    }
+                } while (n < 3);
+            }
+            block: {
+                result.push("x");
+                for (const x of [1, 2]) {
+                    if (x === 2) { break block; }
+                }
+                result.push("y");
+            }
+            return result.join(",");`,
+            { luaTarget, dontRequireLuaLib: true }
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("00,01,10,11,20,21,k1,k2,x");
+    }
+
+    @TestCase(LuaTarget.Lua52)
+    @TestCase(LuaTarget.Lua53)
+    @TestCase(LuaTarget.LuaJIT)
+    @Test("labeled continue")
+    public labeledContinue(luaTarget: LuaTarget) {
+        const lua = util.transpileString(
+            `const result: string[] = [];
+            outer: for (let i = 0; i < 3; i++) {
+                let j = 0;
+                while (true) {
+                    j++;
+                    if (j > i) { continue outer; }
+                    result.push(\`\${i}\${j}\`);
+                }
+            }
+            let k = 0;
+            loop: for (const x of [1, 2, 3]) {
+                for (let m = 0; m < 2; m++) {
+                    if (x === 2) { continue loop; }
+                    k += x;
+                }
+            }
+            return result.join(",") + " " + k;`,
+            { luaTarget, dontRequireLuaLib: true }
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("11,21,22 8");
+    }
+
+    @Test("labeled continue in Lua 5.1")
+    public labeledContinue51() {
+        Expect(() => util.transpileString(
+            `outer: for (let i = 0; i < 3; i++) { for (const x of [1]) { continue outer; } }`,
+            { luaTarget: LuaTarget.Lua51, dontRequireLuaLib: true }
+        )).toThrowError(
+            Error,
+            "Unsupported continue statement, can not continue label 'outer', continue is not supported in Lua 5.1."
+        );
+    }
+
     @TestCase("while (a < b) { i++; }")
     @TestCase("do { i++; } while (a < b)")
     @TestCase("for (let i = 0; i < 3; i++) {}")
@@ -7,9 +7,150 @@ export class LuaModuleTests {
 
     @Test("defaultImport")
     public defaultImport() {
-        Expect(() => {
-            const lua = util.transpileString(`import TestClass from "test"`);
-        }).toThrowError(Error, "Default Imports are not supported, please use named imports instead!");
+        const lua = util.transpileString(`import TestClass from "test"; TestClass;`);
+
+        util.expectCodeEqual(lua,
+            `local TestClass = require("test").default
+            TestClass`);
+    }
+
+    @Test("defaultImport with named imports")
+    public defaultImportNamed() {
+        const lua = util.transpileString(`import TestClass, { a, b as c } from "test"; TestClass; a; c;`);
+
+        util.expectCodeEqual(lua,
+            `local test0 = require("test")
+            local TestClass = test0.default
+            local a = test0.a
+            local c = test0.b
+            TestClass
+            a
+            c`);
+    }
+
+    @Test("defaultImport with namespace import")
+    public defaultImportNamespace() {
+        const lua = util.transpileString(`import TestClass, * as test from "test"; TestClass; test;`);
+
+        util.expectCodeEqual(lua,
+            `local test = require("test")
+            local TestClass = test.default
+            TestClass
+            test`);
+    }
+
+    @Test("Side-effect import")
+    public sideEffectImport() {
+        const lua = util.transpileString(`import "test";`);
+
+        Expect(lua).toBe(`require("test")`);
+    }
+
+    @TestCase(`import { TestType } from "test"; let x: TestType;`)
+    @TestCase(`import TestType from "test"; let x: TestType;`)
+    @TestCase(`import * as test from "test"; let x: test.TestType;`)
+    @TestCase(`import { TestType } from "test"; interface I extends TestType {}`)
+    @TestCase(`import { TestType } from "test"; class C implements TestType {}`)
+    @TestCase(`import { TestType } from "test"; let x = 3 as TestType;`)
+    @TestCase(`import { TestType } from "test";`)
+    @Test("Type-only import elision")
+    public typeOnlyImportElision(code: string) {
+        const lua = util.transpileString(code);
+
+        Expect(lua).not.toContain(`require`);
+    }
+
+    @Test("Partially type-only import")
+    public partialTypeOnlyImport() {
+        const lua = util.transpileString(`import { TestType, testValue } from "test"; let x: TestType = testValue;`);
+
+        util.expectCodeEqual(lua,
+            `local test0 = require("test")
+            local testValue = test0.testValue
+            local x = testValue`);
+    }
+
+    @TestCase(`import { testValue } from "test"; testValue();`)
+    @TestCase(`import { testValue } from "test"; export { testValue };`)
+    @Test("Value import not elided")
+    public valueImportNotElided(code: string) {
+        const lua = util.transpileString(code);
+
+        Expect(lua).toContain(`require("test")`);
+    }
+
+    @TestCase("export default class TestClass {}", "TestClass")
+    @TestCase("export default function testFunc() {}", "testFunc")
+    @Test("defaultExport declaration")
+    public defaultExportDeclaration(code: string, name: string) {
+        const lua = util.transpileString(code);
+
+        Expect(lua).toContain(`exports.default = ${name}`);
+        Expect(lua).not.toContain(`exports.${name}`);
+    }
+
+    @Test("defaultExport anonymous function")
+    public defaultExportAnonymousFunction() {
+        const lua = util.transpileString(`export default function() { return 3; }`);
+
+        util.expectCodeEqual(lua,
+            `local exports = exports or {}
+            function exports.default()
+                return 3
+            end
+            return exports`);
+    }
+
+    @TestCase("export default 3;")
+    @TestCase("export = 3;")
+    @Test("defaultExport expression")
+    public defaultExportExpression(code: string) {
+        const lua = util.transpileString(code);
+
+        Expect(lua).toContain(`exports.default = 3`);
+    }
+
+    @Test("Export list")
+    public exportList() {
+        const lua = util.transpileString(
+            `const a = 1;
+            function b() {}
+            interface I {}
+            export { a, b as c, I };`
+        );
+
+        Expect(lua).toContain(`exports.a = a`);
+        Expect(lua).toContain(`exports.c = b`);
+        Expect(lua).not.toContain(`exports.I`);
+    }
+
+    @Test("Named re-export")
+    public namedReExport() {
+        const lua = util.transpileString(`export { a, b as c, default as d } from "test";`);
+
+        util.expectCodeEqual(lua,
+            `local exports = exports or {}
+            local test0 = require("test")
+            exports.a = test0.a
+            exports.c = test0.b
+            exports.d = test0.default
+            return exports`);
+    }
+
+    @TestCase("a", 1)
+    @TestCase("b", 3)
+    @TestCase("default", null)
+    @Test("Star re-export")
+    public starReExport(member: string, expected: any) {
+        const lua = util.transpileString(`export const a = 1; export * from "test";`);
+
+        const result = util.executeLua(
+            `package.preload["test"] = function() return { a = 2, b = 3, default = 4 } end
+            local exports = (function() ${lua} end)()
+            return exports["${member}"]`
+        );
+
+        Expect(result).toBe(expected);
     }
 
     @Test("lualibRequire")
@@ -18,7 +159,7 @@ export class LuaModuleTests {
         const lua = util.transpileString(``, {dontRequireLuaLib: false, luaTarget: "JIT"});
 
         // Assert
-        Expect(lua).toBe(`require("typescript_lualib")`);
+        Expect(lua).toBe(`require("typescript_lualib")\nTS_beginFile()\nTS_endFile()`);
     }
 
     @Test("Import named bindings exception")
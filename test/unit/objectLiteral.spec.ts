@@ -10,9 +10,72 @@ export class ObjectLiteralTests {
     @TestCase(`{["a"]:3,b:"4"}`, `{["a"] = 3,b = "4"}`)
     @TestCase(`{["a"+123]:3,b:"4"}`, `{["a" .. 123] = 3,b = "4"}`)
     @TestCase(`{[myFunc()]:3,b:"4"}`, `{[myFunc()] = 3,b = "4"}`)
+    @TestCase(`{"a\\"b":3}`, `{["a\\"b"] = 3}`)
+    @TestCase(`{1:3}`, `{[1] = 3}`)
+    @TestCase(`{end:3}`, `{["end"] = 3}`)
+    @TestCase(`{a}`, `{a = a}`)
+    @TestCase(`{...a}`, `TS_objectAssign({}, a)`)
+    @TestCase(`{b:1,...a}`, `TS_objectAssign({b = 1}, a)`)
+    @TestCase(`{...a,b:1}`, `TS_objectAssign({}, a, {b = 1})`)
     @Test("Object Literal")
     public objectLiteral(inp: string, out: string) {
         var lua = util.transpileString(`const myvar = ${inp};`)
         Expect(lua).toBe(`local myvar = ${out}`);
     }
+
+    @TestCase("const obj = { x }; return obj.x;", 3)
+    @TestCase("const obj = { ...defaults }; return obj.a + obj.b;", 3)
+    @TestCase("const obj = { ...defaults, b: 5 }; return obj.a + obj.b;", 6)
+    @TestCase("const obj = { b: 5, ...defaults }; return obj.a + obj.b;", 3)
+    @TestCase("const obj = { ...defaults }; obj.a = 10; return defaults.a;", 1)
+    @TestCase("const obj = { ...undefined, a: 1 }; return obj.a;", 1)
+    @TestCase(`const obj = { "a b": 4 }; return obj["a b"];`, 4)
+    @TestCase("const obj = { end: 4 }; return obj.end;", 4)
+    @TestCase("const obj = { y: 2, method(z: number) { return this.y * z; } }; return obj.method(x);", 6)
+    @TestCase("const obj = { y: 2, method() { return this.y; } }; obj.y = 7; return obj.method();", 7)
+    @Test("Object literal properties")
+    public objectLiteralProperties(code: string, expected: any) {
+        const lua = util.transpileString(`const x = 3; const defaults = { a: 1, b: 2 }; ${code}`);
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(expected);
+    }
+
+    @TestCase("return obj.v;", 2)
+    @TestCase("obj.v = 5; return obj.v;", 10)
+    @TestCase("obj.v = 5; return obj._v;", 5)
+    @TestCase("obj.other = 5; return obj.other;", 5)
+    @TestCase("return obj.readOnly;", 3)
+    @Test("Object literal accessors")
+    public objectLiteralAccessors(code: string, expected: any) {
+        const lua = util.transpileString(
+            `const obj = {
+                _v: 1,
+                get v() { return this._v * 2; },
+                set v(value: number) { this._v = value; },
+                get readOnly() { return 3; },
+                other: 0,
+            };
+            ${code}`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(expected);
+    }
+
+    @Test("Object literal getter without setter")
+    public objectLiteralGetterWithoutSetter() {
+        const lua = util.transpileString(`const obj: any = { get v() { return 1; } }; obj.v = 3;`);
+
+        let message = "";
+        try {
+            util.executeLua(lua);
+        } catch (e) {
+            message = e.message;
+        }
+
+        Expect(message).toContain("Cannot set property v which has only a getter");
+    }
 }
@@ -0,0 +1,199 @@
+import { Expect, Test, TestCase } from "alsatian";
+import { LuaTarget } from "../../src/Transpiler";
+import * as util from "../src/util";
+
+// Collects promise jobs so they only run when the test calls flush()
+const deferredScheduler =
+    `declare let TS_scheduleMicrotasks: (run: () => void) => void;
+    let pending: () => void;
+    TS_scheduleMicrotasks = run => { pending = run; };
+    const flush = () => { if (pending) { pending(); } };
+    const log: string[] = [];`;
+
+export class PromiseTests {
+    @Test("promise then")
+    public promiseThen() {
+        const lua = util.transpileString(
+            `${deferredScheduler}
+            const p = new Promise<number>(resolve => resolve(5));
+            p.then(v => log.push("then " + v));
+            flush();
+            return log.join(",");`
+        );
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("then 5");
+    }
+
+    @Test("promise default scheduler defers jobs until drained")
+    public promiseDefaultScheduler() {
+        const lua = util.transpileString(
+            `declare function TS_runMicrotasks(): void;
+            const log: string[] = [];
+            Promise.resolve(1).then(v => log.push("a" + v)).then(() => log.push("b"));
+            log.push("sync");
+            const before = log.join(",");
+            TS_runMicrotasks();
+            return before + "|" + log.join(",");`
+        );
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("sync|sync,a1,b");
+    }
+
+    @Test("promise callbacks run after synchronous code")
+    public promiseAsync() {
+        const lua = util.transpileString(
+            `${deferredScheduler}
+            Promise.resolve(1).then(v => log.push("a" + v)).then(() => log.push("c"));
+            Promise.resolve(2).then(v => log.push("b" + v));
+            log.push("sync");
+            flush();
+            return log.join(",");`
+        );
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("sync,a1,b2,c");
+    }
+
+    @Test("promise chaining")
+    public promiseChaining() {
+        const lua = util.transpileString(
+            `${deferredScheduler}
+            new Promise<number>(resolve => resolve(1))
+                .then(v => v + 1)
+                .then(v => Promise.resolve(v * 10))
+                .then(v => log.push("result " + v));
+            flush();
+            return log.join(",");`
+        );
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("result 20");
+    }
+
+    @TestCase("Promise.reject('bad')")
+    @TestCase("new Promise((resolve, reject) => reject('bad'))")
+    @TestCase("new Promise(() => { throw 'bad'; })")
+    @TestCase("Promise.resolve(1).then(() => { throw 'bad'; })")
+    @Test("promise rejection")
+    public promiseRejection(promise: string) {
+        const lua = util.transpileString(
+            `${deferredScheduler}
+            ${promise}.then(() => log.push("fulfilled")).catch(e => log.push("rejected"));
+            flush();
+            return log.join(",");`
+        );
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("rejected");
+    }
+
+    @Test("promise resolves only once")
+    public promiseResolveOnce() {
+        const lua = util.transpileString(
+            `${deferredScheduler}
+            new Promise<number>((resolve, reject) => { resolve(1); resolve(2); reject(3); })
+                .then(v => log.push("v" + v), e => log.push("e" + e));
+            flush();
+            return log.join(",");`
+        );
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("v1");
+    }
+
+    @TestCase("Promise.resolve(1)", "finally,value 1,then 1")
+    @TestCase("Promise.reject(1)", "finally,catch 1")
+    @Test("promise finally")
+    public promiseFinally(promise: string, expected: string) {
+        const lua = util.transpileString(
+            `${deferredScheduler}
+            ${promise}
+                .finally(() => log.push("finally"))
+                .then(v => log.push("then " + v), e => log.push("catch " + e));
+            ${promise}.then(v => log.push("value " + v), () => undefined);
+            flush();
+            return log.join(",");`
+        );
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(expected);
+    }
+
+    @Test("promise all")
+    public promiseAll() {
+        const lua = util.transpileString(
+            `${deferredScheduler}
+            let resolveFirst: (v: number) => void;
+            const first = new Promise<number>(resolve => { resolveFirst = resolve; });
+            Promise.all([first, Promise.resolve(2), 3]).then(vs => log.push(vs.join("|")));
+            Promise.all([]).then(vs => log.push("empty " + vs.length));
+            flush();
+            resolveFirst(1);
+            flush();
+            return log.join(",");`
+        );
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("empty 0,1|2|3");
+    }
+
+    @Test("promise all rejects")
+    public promiseAllRejects() {
+        const lua = util.transpileString(
+            `${deferredScheduler}
+            Promise.all([Promise.resolve(1), Promise.reject("bad")]).catch(e => log.push("rejected " + e));
+            flush();
+            return log.join(",");`
+        );
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("rejected bad");
+    }
+
+    @Test("promise race")
+    public promiseRace() {
+        const lua = util.transpileString(
+            `${deferredScheduler}
+            const never = new Promise<number>(() => undefined);
+            Promise.race([never, Promise.resolve(2)]).then(v => log.push("race " + v));
+            flush();
+            return log.join(",");`
+        );
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("race 2");
+    }
+
+    @Test("promise adopts thenables")
+    public promiseThenable() {
+        const lua = util.transpileString(
+            `${deferredScheduler}
+            const thenable = { then(resolve: (v: number) => void) { resolve(7); } };
+            Promise.resolve(thenable).then(v => log.push("value " + v));
+            flush();
+            return log.join(",");`
+        );
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe("value 7");
+    }
+
+    @Test("promise default scheduler runs jobs when the file finishes")
+    public promiseDefaultSchedulerEndOfFile() {
+        const lua = util.transpileString(
+            `const log: string[] = [];
+            Promise.resolve(1).then(v => { log.push("a" + v); return v + 1; }).then(v => log.push("b" + v));
+            log.push("sync");`,
+            { luaTarget: LuaTarget.Lua53, dontRequireLuaLib: false }
+        );
+        const result = util.executeLua(
+            `package.loaded["typescript_lualib"] = true
+            ${lua}
+            return table.concat(log, ",")`
+        );
+
+        Expect(result).toBe("sync,a1,b2");
+    }
+}
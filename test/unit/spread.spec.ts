@@ -0,0 +1,121 @@
+import { Expect, Test, TestCase } from "alsatian";
+import { LuaTarget } from "../../src/Transpiler";
+
+import * as util from "../src/util";
+
+export class SpreadTests {
+
+    @TestCase("[...a]", "1,2")
+    @TestCase("[0, ...a]", "0,1,2")
+    @TestCase("[...a, 3]", "1,2,3")
+    @TestCase("[...a, ...b]", "1,2,3,4")
+    @TestCase("[0, ...a, 5, ...b, 6]", "0,1,2,5,3,4,6")
+    @TestCase("[...[1, 2], ...b]", "1,2,3,4")
+    @TestCase("[...a, ...[]]", "1,2")
+    @Test("Array spread")
+    public arraySpread(expression: string, expected: string) {
+        const lua = util.transpileString(`const a = [1, 2]; const b = [3, 4]; return ${expression}.join(",");`);
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(expected);
+    }
+
+    @Test("Array spread with nil holes")
+    public arraySpreadNilHoles() {
+        const lua = util.transpileString(
+            `const a = [1, 2];
+            const b = [...a, undefined, undefined, 5, ...a];
+            return b[4] + b[5];`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(6);
+    }
+
+    @TestCase("sum(...a)", 6)
+    @TestCase("sum(1, ...b)", 6)
+    @TestCase("sum(...b, 3)", 8)
+    @TestCase("sum(...[1, 2, 3])", 6)
+    @TestCase("sum(...[1], ...b)", 6)
+    @TestCase("Math.max(...a)", 3)
+    @Test("Call spread")
+    public callSpread(call: string, expected: number) {
+        const lua = util.transpileString(
+            `function sum(x: number, y: number, z: number) { return x + y + z; }
+            const a = [1, 2, 3];
+            const b = [2, 3];
+            return ${call};`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(expected);
+    }
+
+    @Test("Call spread with nil holes")
+    public callSpreadNilHoles() {
+        const lua = util.transpileString(
+            `function third(x: number, y: number, z: number) { return z; }
+            const a = [3];
+            return third(undefined, undefined, ...a) + third(...[undefined], undefined, ...a, 1);`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(6);
+    }
+
+    @TestCase("function f(...args: number[]) { args.push(4); return count(...args); } return f(1, 2, 3);", 4)
+    @TestCase("const c = [...a, ...b]; c.push(9); return count(...c);", 5)
+    @TestCase("const c = [0, ...a]; c.push(9); return count(...c);", 4)
+    @TestCase("const c: object = [...a, 5]; let keys = 0; for (const k in c) { keys++; } return keys;", 3)
+    @TestCase("const c: object = [...b, ...a]; let keys = 0; for (const k in c) { keys++; } return keys;", 4)
+    @Test("Spread of modified arrays")
+    public spreadModifiedArray(code: string, expected: number) {
+        const lua = util.transpileString(
+            `declare function select(this: void, index: "#", ...args: any[]): number;
+            function count(this: void, ...args: any[]) { return select("#", ...args); }
+            const a = [1, 2];
+            const b = [3, 4];
+            ${code}`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(expected);
+    }
+
+    @TestCase("new V(...a)", 6)
+    @TestCase("new V(...b, 1)", 6)
+    @Test("New expression spread")
+    public newSpread(expression: string, expected: number) {
+        const lua = util.transpileString(
+            `class V { sum: number; constructor(x: number, y: number, z: number) { this.sum = x + y + z; } }
+            const a = [1, 2, 3];
+            const b = [2, 3];
+            return ${expression}.sum;`
+        );
+
+        const result = util.executeLua(lua);
+
+        Expect(result).toBe(expected);
+    }
+
+    @TestCase(LuaTarget.Lua51, "f(unpack(a))")
+    @TestCase(LuaTarget.Lua52, "f(table.unpack(a))")
+    @TestCase(LuaTarget.Lua53, "f(table.unpack(a))")
+    @TestCase(LuaTarget.LuaJIT, "f(unpack(a))")
+    @Test("Spread unpack per target")
+    public spreadUnpackTarget(luaTarget: LuaTarget, expected: string) {
+        const lua = util.transpileString(
+            `declare function f(...args: any[]): void;
+            declare const a: number[];
+            f(...a);`,
+            { luaTarget, dontRequireLuaLib: true }
+        );
+
+        Expect(lua).toBe(expected);
+    }
+}